@@ -0,0 +1,155 @@
+/**
+ * Audit Log for Oracle MCP Server
+ *
+ * Appends one JSON object per executed statement to a JSON Lines file so
+ * there is a durable record of everything run through the server. Entries
+ * are never rewritten; searching reads the file back.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import { AuditEntry, AuditFilter, AuditOptions, BindValues } from './types.js';
+
+const REDACTED = '***';
+const MAX_BIND_LENGTH = 1000;
+const DEFAULT_SEARCH_LIMIT = 50;
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+function isTypedBind(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'value' in value;
+}
+
+function redactValue(value: unknown, masked: boolean): unknown {
+  if (isTypedBind(value)) {
+    return { ...value, value: redactValue(value.value, masked) };
+  }
+  if (masked && value !== null && value !== undefined) {
+    return REDACTED;
+  }
+  if (typeof value === 'string' && value.length > MAX_BIND_LENGTH) {
+    return `${value.slice(0, MAX_BIND_LENGTH)}… [${value.length} characters]`;
+  }
+  return value;
+}
+
+/**
+ * Mask bind values according to the audit settings. Positional binds have
+ * no names, so only the 'all' mode masks them.
+ */
+export function redactBinds(params: BindValues | undefined, options: AuditOptions): unknown {
+  if (params === undefined || params === null) {
+    return undefined;
+  }
+  const maskAll = options.redactBinds === 'all';
+
+  if (Array.isArray(params)) {
+    return params.map(value => redactValue(value, maskAll));
+  }
+
+  const sensitive = new RegExp(options.sensitiveBindPattern, 'i');
+  const redacted: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(params)) {
+    const masked = maskAll || (options.redactBinds === 'sensitive' && sensitive.test(name));
+    redacted[name] = redactValue(value, masked);
+  }
+  return redacted;
+}
+
+// Passwords can also appear as literals, e.g. ALTER USER ... IDENTIFIED BY
+export function redactSql(sql: string): string {
+  return sql.replace(/(\bIDENTIFIED\s+BY\s+)("[^"]*"|\S+)/gi, `$1${REDACTED}`);
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export class AuditLog {
+  private options: AuditOptions;
+
+  constructor(options: AuditOptions) {
+    this.options = options;
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  get path(): string {
+    return this.options.path;
+  }
+
+  /**
+   * Append an entry. Write failures are reported on stderr but never fail
+   * the statement being audited.
+   */
+  record(entry: Omit<AuditEntry, 'binds'>, params?: BindValues): void {
+    if (!this.options.enabled) {
+      return;
+    }
+
+    const line: AuditEntry = {
+      ...entry,
+      sql: redactSql(entry.sql),
+      binds: redactBinds(params, this.options),
+    };
+    try {
+      mkdirSync(dirname(this.options.path), { recursive: true });
+      appendFileSync(this.options.path, JSON.stringify(line) + '\n', 'utf8');
+    } catch (e) {
+      console.error(`Failed to write audit log '${this.options.path}':`, e);
+    }
+  }
+
+  /**
+   * Return matching entries, newest first, along with the number that
+   * matched before the limit was applied.
+   */
+  search(filter: AuditFilter = {}): { entries: AuditEntry[]; total: number } {
+    if (!existsSync(this.options.path)) {
+      return { entries: [], total: 0 };
+    }
+
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const until = filter.until ? Date.parse(filter.until) : undefined;
+    if ((since !== undefined && isNaN(since)) || (until !== undefined && isNaN(until))) {
+      throw new Error('since and until must be ISO 8601 timestamps');
+    }
+    const text = filter.text?.toLowerCase();
+
+    const matches: AuditEntry[] = [];
+    for (const line of readFileSync(this.options.path, 'utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        // Skip a line left incomplete by a crash mid-write
+        continue;
+      }
+
+      const time = Date.parse(entry.timestamp);
+      if (
+        (filter.connection && entry.connection !== filter.connection) ||
+        (filter.tool && entry.tool !== filter.tool) ||
+        (filter.queryType && entry.queryType !== filter.queryType) ||
+        (filter.status && entry.success !== (filter.status === 'success')) ||
+        (text && !entry.sql.toLowerCase().includes(text)) ||
+        (since !== undefined && time < since) ||
+        (until !== undefined && time > until)
+      ) {
+        continue;
+      }
+      matches.push(entry);
+    }
+
+    const limit = filter.limit ?? DEFAULT_SEARCH_LIMIT;
+    return { entries: matches.reverse().slice(0, limit), total: matches.length };
+  }
+}
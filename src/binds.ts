@@ -0,0 +1,302 @@
+/**
+ * Bind Variable Handling for Oracle MCP Server
+ *
+ * Converts bind values received from MCP tools (plain JSON values or typed
+ * bind specs) into node-oracledb bind parameters and reads OUT binds back.
+ */
+
+import oracledb from 'oracledb';
+import { BatchBindTypes, BindSpec, BindType, BindValues } from './types.js';
+
+// Largest VARCHAR2 a PL/SQL OUT bind can return
+const DEFAULT_OUT_MAX_SIZE = 32767;
+
+const BIND_SPEC_KEYS = ['type', 'value', 'dir', 'maxSize'];
+
+export interface PreparedBatch {
+  binds: Record<string, unknown>[] | unknown[][];
+  bindDefs: Record<string, oracledb.BindDefinition> | oracledb.BindDefinition[];
+}
+
+export interface PreparedBinds {
+  binds: Record<string, oracledb.BindParameter> | oracledb.BindParameter[];
+  // Bind names (or 1-based positions) whose values come back as OUT binds
+  outKeys: string[];
+}
+
+function isBindSpec(value: unknown): value is BindSpec {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(k => BIND_SPEC_KEYS.includes(k));
+}
+
+function driverType(type: BindType): number {
+  switch (type) {
+    case 'string':
+      return oracledb.STRING;
+    case 'number':
+      return oracledb.NUMBER;
+    case 'date':
+      return oracledb.DB_TYPE_DATE;
+    case 'timestamp':
+      return oracledb.DB_TYPE_TIMESTAMP;
+    case 'clob':
+      return oracledb.CLOB;
+    case 'blob':
+      return oracledb.BLOB;
+    default:
+      throw new Error(`unknown bind type '${type}'`);
+  }
+}
+
+export function convertValue(type: BindType, value: unknown): { val: unknown; type: number } {
+  if (value === null || value === undefined) {
+    return { val: null, type: driverType(type) };
+  }
+
+  switch (type) {
+    case 'number':
+      // Numeric strings are bound as text so Oracle converts them without
+      // passing through a JS double
+      if (typeof value === 'string') {
+        if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(value.trim())) {
+          throw new Error(`'${value}' is not a number`);
+        }
+        return { val: value.trim(), type: oracledb.STRING };
+      }
+      if (typeof value !== 'number') {
+        throw new Error(`expected a number, got ${typeof value}`);
+      }
+      return { val: value, type: oracledb.NUMBER };
+    case 'date':
+    case 'timestamp': {
+      const date = new Date(value as string | number);
+      if (isNaN(date.getTime())) {
+        throw new Error(`'${String(value)}' is not a valid ${type}`);
+      }
+      return { val: date, type: driverType(type) };
+    }
+    case 'blob':
+      if (typeof value !== 'string') {
+        throw new Error('BLOB values must be base64 strings');
+      }
+      return { val: Buffer.from(value, 'base64'), type: oracledb.BLOB };
+    default:
+      return { val: String(value), type: driverType(type) };
+  }
+}
+
+function prepareBind(key: string, value: unknown, allowOut: boolean): oracledb.BindParameter {
+  if (!isBindSpec(value)) {
+    return { val: value, dir: oracledb.BIND_IN };
+  }
+
+  const dir = value.dir || 'in';
+  if (dir !== 'in' && !allowOut) {
+    throw new Error(`Bind '${key}': OUT binds are only supported for DML and PL/SQL`);
+  }
+
+  try {
+    if (dir === 'out') {
+      const type = value.type || 'string';
+      return {
+        dir: oracledb.BIND_OUT,
+        type: driverType(type),
+        maxSize: type === 'string' ? value.maxSize || DEFAULT_OUT_MAX_SIZE : value.maxSize,
+      };
+    }
+
+    if (!value.type) {
+      return { val: value.value ?? null, dir: dir === 'inout' ? oracledb.BIND_INOUT : oracledb.BIND_IN };
+    }
+
+    const converted = convertValue(value.type, value.value);
+    if (dir === 'inout') {
+      return {
+        ...converted,
+        dir: oracledb.BIND_INOUT,
+        maxSize: value.type === 'string' ? value.maxSize || DEFAULT_OUT_MAX_SIZE : value.maxSize,
+      };
+    }
+    return { ...converted, dir: oracledb.BIND_IN };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    throw new Error(`Bind '${key}': ${error}`);
+  }
+}
+
+/**
+ * Build driver binds from tool input. Objects bind by name (:name), arrays by
+ * position (:1, :2, ...).
+ */
+export function prepareBinds(values: BindValues | undefined, allowOut = false): PreparedBinds {
+  const outKeys: string[] = [];
+
+  if (Array.isArray(values)) {
+    const binds = values.map((value, i) => {
+      const bind = prepareBind(String(i + 1), value, allowOut);
+      if (bind.dir !== oracledb.BIND_IN) {
+        outKeys.push(String(i + 1));
+      }
+      return bind;
+    });
+    return { binds, outKeys };
+  }
+
+  const binds: Record<string, oracledb.BindParameter> = {};
+  for (const [name, value] of Object.entries(values || {})) {
+    // Accept ":name" as well as "name"
+    const key = name.replace(/^:/, '');
+    binds[key] = prepareBind(key, value, allowOut);
+    if (binds[key].dir !== oracledb.BIND_IN) {
+      outKeys.push(key);
+    }
+  }
+  return { binds, outKeys };
+}
+
+// Pick a bind type from the values when no type is given
+function inferBatchType(values: unknown[]): BindType {
+  const present = values.filter(value => value !== null && value !== undefined);
+  return present.length > 0 && present.every(value => typeof value === 'number') ? 'number' : 'string';
+}
+
+function prepareBatchColumn(
+  key: string,
+  values: unknown[],
+  type: BindType | undefined
+): { values: unknown[]; def: oracledb.BindDefinition } {
+  const bindType = type ?? inferBatchType(values);
+  if (bindType === 'clob' || bindType === 'blob') {
+    throw new Error(`Bind '${key}': ${bindType.toUpperCase()} binds are not supported in batches`);
+  }
+
+  const converted = values.map((value, row) => {
+    if (value !== null && typeof value === 'object') {
+      throw new Error(`Row ${row}, bind '${key}': expected a scalar value`);
+    }
+    try {
+      return convertValue(bindType, value);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      throw new Error(`Row ${row}, bind '${key}': ${error}`);
+    }
+  });
+
+  // Every row shares one bind definition, so numbers given partly as text
+  // are all bound as text
+  if (converted.every(c => c.type !== oracledb.STRING)) {
+    return { values: converted.map(c => c.val), def: { type: driverType(bindType) } };
+  }
+  const text = converted.map(c => (c.val === null ? null : String(c.val)));
+  const maxSize = Math.max(1, ...text.map(value => Buffer.byteLength(value ?? '', 'utf8')));
+  return { values: text, def: { type: oracledb.STRING, maxSize } };
+}
+
+/**
+ * Build executeMany() binds from an array of bind rows. Rows are either all
+ * objects (by name) or all arrays (by position); a bind missing from a row
+ * is bound as NULL. Types come from the hints or are inferred per bind.
+ */
+export function prepareBatchBinds(rows: BindValues[], types?: BatchBindTypes): PreparedBatch {
+  if (rows.length === 0) {
+    throw new Error('The batch has no bind rows');
+  }
+
+  if (rows.every(row => Array.isArray(row))) {
+    const arrays = rows as unknown[][];
+    const width = Math.max(...arrays.map(row => row.length));
+    const hints = Array.isArray(types) ? types : [];
+    const columns = Array.from({ length: width }, (_, i) =>
+      prepareBatchColumn(String(i + 1), arrays.map(row => row[i] ?? null), hints[i])
+    );
+    return {
+      binds: arrays.map((_, row) => columns.map(column => column.values[row])),
+      bindDefs: columns.map(column => column.def),
+    };
+  }
+
+  if (rows.some(row => Array.isArray(row) || row === null || typeof row !== 'object')) {
+    throw new Error('Bind rows must be all objects (named binds) or all arrays (positional binds)');
+  }
+
+  const objects = (rows as Record<string, unknown>[]).map(row => {
+    const normalized: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(row)) {
+      // Accept ":name" as well as "name"
+      normalized[name.replace(/^:/, '')] = value;
+    }
+    return normalized;
+  });
+  const hints: Record<string, BindType> = {};
+  if (types && !Array.isArray(types)) {
+    for (const [name, type] of Object.entries(types)) {
+      hints[name.replace(/^:/, '')] = type;
+    }
+  }
+
+  const names = Array.from(new Set(objects.flatMap(row => Object.keys(row))));
+  const bindDefs: Record<string, oracledb.BindDefinition> = {};
+  const binds: Record<string, unknown>[] = objects.map(() => ({}));
+  for (const name of names) {
+    const column = prepareBatchColumn(name, objects.map(row => row[name] ?? null), hints[name]);
+    bindDefs[name] = column.def;
+    column.values.forEach((value, row) => {
+      binds[row][name] = value;
+    });
+  }
+  return { binds, bindDefs };
+}
+
+/**
+ * Narrow tool binds to those used by a derived statement. Named binds are
+ * matched by name, positional binds by their position in the original
+ * statement.
+ */
+export function selectBinds(
+  values: BindValues | undefined,
+  used: { name: string; ordinal: number }[]
+): BindValues {
+  if (Array.isArray(values)) {
+    return used.map(bind => values[bind.ordinal]);
+  }
+
+  const selected: Record<string, unknown> = {};
+  const entries = Object.entries(values || {});
+  for (const bind of used) {
+    const entry = entries.find(
+      ([name]) => name.replace(/^:/, '').toUpperCase() === bind.name.toUpperCase()
+    );
+    if (entry) {
+      selected[bind.name] = entry[1];
+    }
+  }
+  return selected;
+}
+
+/**
+ * Pick the OUT/INOUT values from an execute() result, keyed like the input.
+ */
+export function collectOutBinds(
+  outBinds: Record<string, unknown> | unknown[] | undefined,
+  outKeys: string[]
+): Record<string, unknown> | undefined {
+  if (!outBinds || outKeys.length === 0) {
+    return undefined;
+  }
+
+  const values: Record<string, unknown> = {};
+  if (Array.isArray(outBinds)) {
+    // Positional OUT binds come back in bind order, skipping IN binds
+    outKeys.forEach((key, i) => {
+      values[key] = outBinds[i];
+    });
+  } else {
+    for (const key of outKeys) {
+      values[key] = outBinds[key];
+    }
+  }
+  return values;
+}
@@ -0,0 +1,75 @@
+/**
+ * Confirmation Registry for Oracle MCP Server
+ *
+ * Issues short-lived, single-use tokens for risky statements. A statement
+ * held for confirmation only runs when it is resubmitted unchanged, on the
+ * same connection and with the same binds, together with its token.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { tokenize } from './sql-lexer.js';
+import { BindValues } from './types.js';
+
+interface PendingConfirmation {
+  // Fingerprint of connection, statement and binds
+  fingerprint: string;
+  expiresAt: number;
+}
+
+export class ConfirmationRegistry {
+  private ttlSeconds: number;
+  private pending: Map<string, PendingConfirmation> = new Map();
+
+  constructor(ttlSeconds: number) {
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  get ttl(): number {
+    return this.ttlSeconds;
+  }
+
+  issue(connectionName: string, sql: string, params?: BindValues): string {
+    this.purgeExpired();
+
+    const token = randomBytes(4).toString('hex');
+    this.pending.set(token, {
+      fingerprint: fingerprint(connectionName, sql, params),
+      expiresAt: Date.now() + this.ttlSeconds * 1000,
+    });
+    return token;
+  }
+
+  /**
+   * Check and use up a token. Fails if the token is unknown, expired or was
+   * issued for a different statement.
+   */
+  consume(token: string, connectionName: string, sql: string, params?: BindValues): boolean {
+    this.purgeExpired();
+
+    const entry = this.pending.get(token);
+    if (!entry || entry.fingerprint !== fingerprint(connectionName, sql, params)) {
+      return false;
+    }
+    this.pending.delete(token);
+    return true;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+// Whitespace and comments do not change the fingerprint; everything else does
+function fingerprint(connectionName: string, sql: string, params?: BindValues): string {
+  const statement = tokenize(sql)
+    .map(token => token.text)
+    .join(' ');
+  return createHash('sha256')
+    .update(JSON.stringify([connectionName, statement, params ?? null]))
+    .digest('hex');
+}
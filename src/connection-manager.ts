@@ -10,18 +10,120 @@ import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
 import {
+  AuditOptions,
   ConnectionConfig,
   ServerConfig,
   ConnectionMode,
   OracleClientMode,
   ConnectionInfo,
   ConnectionTestResult,
+  ExecutionOptions,
+  HistoryOptions,
+  LobOptions,
+  PoolConfig,
+  PoolStats,
+  SafetyPolicy,
+  TransactionInfo,
 } from './types.js';
+import { DEFAULT_SAFETY_POLICY, parseSafetyPolicy, resolvePolicy } from './safety-policy.js';
+import { parseSavedQueries } from './saved-queries.js';
+import { DEFAULT_MASKING_OPTIONS, parseMaskingOptions } from './masking.js';
 
 // ============================================================================
 // Configuration Loading
 // ============================================================================
 
+const DEFAULT_POOL_CONFIG: PoolConfig = {
+  poolMin: 0,
+  poolMax: 4,
+  poolIncrement: 1,
+  poolTimeout: 60,
+  stmtCacheSize: 30,
+};
+
+const DEFAULT_LOB_OPTIONS: LobOptions = {
+  maxChars: 4000,
+  blobPreview: 'none',
+  blobPreviewBytes: 256,
+};
+
+const DEFAULT_MAX_OUTPUT_LINES = 1000;
+
+function parseLobOptions(raw: Record<string, unknown>): LobOptions {
+  const blobPreview = ((raw.blob_preview ?? raw.blobPreview) as string | undefined)?.toLowerCase();
+  return {
+    maxChars: ((raw.max_chars ?? raw.maxChars) as number | undefined) ?? DEFAULT_LOB_OPTIONS.maxChars,
+    blobPreview:
+      blobPreview === 'hex' || blobPreview === 'base64' ? blobPreview : DEFAULT_LOB_OPTIONS.blobPreview,
+    blobPreviewBytes:
+      ((raw.blob_preview_bytes ?? raw.blobPreviewBytes) as number | undefined) ??
+      DEFAULT_LOB_OPTIONS.blobPreviewBytes,
+  };
+}
+
+const DEFAULT_EXPORT_DIR = join(homedir(), '.oracle-mcp', 'exports');
+const DEFAULT_IMPORT_DIR = join(homedir(), '.oracle-mcp', 'imports');
+
+const DEFAULT_AUDIT_OPTIONS: AuditOptions = {
+  enabled: true,
+  path: join(homedir(), '.oracle-mcp', 'audit.jsonl'),
+  redactBinds: 'sensitive',
+  sensitiveBindPattern: 'pass|pwd|secret|token|credential',
+};
+
+const DEFAULT_HISTORY_OPTIONS: HistoryOptions = {
+  maxEntries: 200,
+};
+
+function parseHistoryOptions(raw: Record<string, unknown>): HistoryOptions {
+  const path = raw.path as string | undefined;
+  return {
+    maxEntries:
+      ((raw.max_entries ?? raw.maxEntries) as number | undefined) ?? DEFAULT_HISTORY_OPTIONS.maxEntries,
+    path: path ? expandHome(path) : undefined,
+  };
+}
+
+function parseAuditOptions(raw: Record<string, unknown>): AuditOptions {
+  const redact = ((raw.redact_binds ?? raw.redactBinds) as string | undefined)?.toLowerCase();
+  const path = raw.path as string | undefined;
+  return {
+    enabled: raw.enabled !== false && raw.enabled !== 'false',
+    path: path ? expandHome(path) : DEFAULT_AUDIT_OPTIONS.path,
+    redactBinds:
+      redact === 'none' || redact === 'all' || redact === 'sensitive'
+        ? redact
+        : DEFAULT_AUDIT_OPTIONS.redactBinds,
+    sensitiveBindPattern:
+      ((raw.sensitive_bind_pattern ?? raw.sensitiveBindPattern) as string | undefined) ??
+      DEFAULT_AUDIT_OPTIONS.sensitiveBindPattern,
+  };
+}
+
+function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+}
+
+// Accepted config keys for each pool setting (short, snake_case and camelCase)
+const POOL_CONFIG_KEYS: [keyof PoolConfig, string[]][] = [
+  ['poolMin', ['min', 'pool_min', 'poolMin']],
+  ['poolMax', ['max', 'pool_max', 'poolMax']],
+  ['poolIncrement', ['increment', 'pool_increment', 'poolIncrement']],
+  ['poolTimeout', ['idle_timeout', 'idleTimeout', 'pool_timeout', 'poolTimeout']],
+  ['stmtCacheSize', ['stmt_cache_size', 'stmtCacheSize']],
+];
+
+function parsePoolConfig(rawPool: Record<string, unknown>): Partial<PoolConfig> {
+  const pool: Partial<PoolConfig> = {};
+  for (const [field, keys] of POOL_CONFIG_KEYS) {
+    const key = keys.find(k => typeof rawPool[k] === 'number');
+    if (key) {
+      pool[field] = rawPool[key] as number;
+    }
+  }
+  return pool;
+}
+
 function getPassword(config: ConnectionConfig): string {
   if (config.password) {
     return config.password;
@@ -79,6 +181,49 @@ export function loadConfigFromEnv(): ServerConfig {
     oracleClientPath: process.env.ORACLE_CLIENT_PATH,
     defaultMaxRows: parseInt(process.env.DEFAULT_MAX_ROWS || '100', 10),
     queryTimeout: parseInt(process.env.QUERY_TIMEOUT || '30', 10),
+    cursorIdleTimeout: parseInt(process.env.CURSOR_IDLE_TIMEOUT || '300', 10),
+    maxOpenCursors: parseInt(process.env.MAX_OPEN_CURSORS || '2', 10),
+    confirmationTtl: parseInt(process.env.CONFIRMATION_TTL || '300', 10),
+    transactionIdleTimeout: parseInt(process.env.TRANSACTION_IDLE_TIMEOUT || '0', 10),
+    exportDir: expandHome(process.env.EXPORT_DIR || DEFAULT_EXPORT_DIR),
+    importDir: expandHome(process.env.IMPORT_DIR || DEFAULT_IMPORT_DIR),
+    lob: parseLobOptions({
+      maxChars: process.env.LOB_MAX_CHARS ? parseInt(process.env.LOB_MAX_CHARS, 10) : undefined,
+      blobPreview: process.env.BLOB_PREVIEW,
+      blobPreviewBytes: process.env.BLOB_PREVIEW_BYTES
+        ? parseInt(process.env.BLOB_PREVIEW_BYTES, 10)
+        : undefined,
+    }),
+    maxOutputLines: parseInt(process.env.MAX_OUTPUT_LINES || String(DEFAULT_MAX_OUTPUT_LINES), 10),
+    // Rules need a config file; the salt is read from MASKING_SALT
+    masking: parseMaskingOptions({}),
+    numbersAsStrings: process.env.NUMBERS_AS_STRINGS === 'true',
+    policy: { ...DEFAULT_SAFETY_POLICY },
+    audit: parseAuditOptions({
+      enabled: process.env.AUDIT_ENABLED,
+      path: process.env.AUDIT_LOG,
+      redactBinds: process.env.AUDIT_REDACT_BINDS,
+    }),
+    history: parseHistoryOptions({
+      maxEntries: process.env.HISTORY_MAX_ENTRIES
+        ? parseInt(process.env.HISTORY_MAX_ENTRIES, 10)
+        : undefined,
+      path: process.env.HISTORY_PATH,
+    }),
+    savedQueries: [],
+    pool: {
+      poolMin: parseInt(process.env.POOL_MIN || String(DEFAULT_POOL_CONFIG.poolMin), 10),
+      poolMax: parseInt(process.env.POOL_MAX || String(DEFAULT_POOL_CONFIG.poolMax), 10),
+      poolIncrement: parseInt(
+        process.env.POOL_INCREMENT || String(DEFAULT_POOL_CONFIG.poolIncrement),
+        10
+      ),
+      poolTimeout: parseInt(process.env.POOL_TIMEOUT || String(DEFAULT_POOL_CONFIG.poolTimeout), 10),
+      stmtCacheSize: parseInt(
+        process.env.STMT_CACHE_SIZE || String(DEFAULT_POOL_CONFIG.stmtCacheSize),
+        10
+      ),
+    },
     connections: [],
   };
 
@@ -115,6 +260,37 @@ export function parseConfig(rawConfig: Record<string, unknown>): ServerConfig {
     oracleClientPath: oracleClient.path as string | undefined,
     defaultMaxRows: (settings.default_max_rows as number) || (settings.defaultMaxRows as number) || 100,
     queryTimeout: (settings.query_timeout as number) || (settings.queryTimeout as number) || 30,
+    cursorIdleTimeout:
+      ((settings.cursor_idle_timeout ?? settings.cursorIdleTimeout) as number | undefined) ?? 300,
+    maxOpenCursors: (settings.max_open_cursors as number) || (settings.maxOpenCursors as number) || 2,
+    confirmationTtl:
+      (settings.confirmation_ttl as number) || (settings.confirmationTtl as number) || 300,
+    transactionIdleTimeout:
+      ((settings.transaction_idle_timeout ?? settings.transactionIdleTimeout) as number | undefined) ??
+      0,
+    exportDir: expandHome(
+      (settings.export_dir as string) || (settings.exportDir as string) || DEFAULT_EXPORT_DIR
+    ),
+    importDir: expandHome(
+      (settings.import_dir as string) || (settings.importDir as string) || DEFAULT_IMPORT_DIR
+    ),
+    lob: parseLobOptions((settings.lob || {}) as Record<string, unknown>),
+    maxOutputLines:
+      ((settings.max_output_lines ?? settings.maxOutputLines) as number | undefined) ??
+      DEFAULT_MAX_OUTPUT_LINES,
+    masking: parseMaskingOptions((settings.masking || {}) as Record<string, unknown>),
+    numbersAsStrings: (settings.numbers_as_strings ?? settings.numbersAsStrings) === true,
+    policy: resolvePolicy(
+      DEFAULT_SAFETY_POLICY,
+      parseSafetyPolicy((settings.policy || {}) as Record<string, unknown>)
+    ),
+    audit: parseAuditOptions((settings.audit || {}) as Record<string, unknown>),
+    history: parseHistoryOptions((settings.history || {}) as Record<string, unknown>),
+    savedQueries: [],
+    pool: {
+      ...DEFAULT_POOL_CONFIG,
+      ...parsePoolConfig((settings.pool || {}) as Record<string, unknown>),
+    },
     connections: [],
   };
 
@@ -122,6 +298,9 @@ export function parseConfig(rawConfig: Record<string, unknown>): ServerConfig {
   const connections = (rawConfig.connections || []) as Record<string, unknown>[];
   for (const connData of connections) {
     const modeStr = ((connData.mode as string) || 'readonly').toLowerCase();
+    const confirmationStr = (
+      (connData.confirmation_level || connData.confirmationLevel || 'high') as string
+    ).toLowerCase();
 
     config.connections.push({
       name: connData.name as string,
@@ -134,9 +313,21 @@ export function parseConfig(rawConfig: Record<string, unknown>): ServerConfig {
       password: connData.password as string | undefined,
       passwordEnv: (connData.password_env || connData.passwordEnv) as string | undefined,
       mode: modeStr === 'readwrite' ? ConnectionMode.READWRITE : ConnectionMode.READONLY,
+      pool: parsePoolConfig((connData.pool || {}) as Record<string, unknown>),
+      queryTimeout: (connData.query_timeout ?? connData.queryTimeout) as number | undefined,
+      transactionIdleTimeout: (connData.transaction_idle_timeout ?? connData.transactionIdleTimeout) as
+        | number
+        | undefined,
+      confirmationLevel: confirmationStr === 'moderate' ? 'moderate' : 'high',
+      policy: parseSafetyPolicy((connData.policy || {}) as Record<string, unknown>),
     });
   }
 
+  config.savedQueries = parseSavedQueries(
+    rawConfig.saved_queries ?? rawConfig.savedQueries,
+    config.connections.map(conn => conn.name)
+  );
+
   return config;
 }
 
@@ -165,9 +356,23 @@ export function getConfig(): ServerConfig {
 // Connection Manager Class
 // ============================================================================
 
+interface PinnedSession {
+  connection: oracledb.Connection;
+  info: TransactionInfo;
+  // Borrowers that have not released the session yet
+  busy: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
 export class ConnectionManager {
   private config: ServerConfig;
-  private connections: Map<string, oracledb.Connection> = new Map();
+  private pools: Map<string, oracledb.Pool> = new Map();
+  private pendingPools: Map<string, Promise<oracledb.Pool>> = new Map();
+  // Sessions held out of the pool because they carry uncommitted work
+  private pinnedSessions: Map<string, PinnedSession> = new Map();
+  // Sessions dropped from their pool; releasing them again is a no-op
+  private discarded: WeakSet<oracledb.Connection> = new WeakSet();
+  private lastAutoRollbacks: Map<string, { at: string; statements: number }> = new Map();
   private connectionConfigs: Map<string, ConnectionConfig> = new Map();
   private initialized = false;
 
@@ -176,6 +381,21 @@ export class ConnectionManager {
       oracleClientMode: OracleClientMode.THIN,
       defaultMaxRows: 100,
       queryTimeout: 30,
+      cursorIdleTimeout: 300,
+      maxOpenCursors: 2,
+      confirmationTtl: 300,
+      transactionIdleTimeout: 0,
+      exportDir: DEFAULT_EXPORT_DIR,
+      importDir: DEFAULT_IMPORT_DIR,
+      lob: { ...DEFAULT_LOB_OPTIONS },
+      maxOutputLines: DEFAULT_MAX_OUTPUT_LINES,
+      masking: { ...DEFAULT_MASKING_OPTIONS },
+      numbersAsStrings: false,
+      policy: { ...DEFAULT_SAFETY_POLICY },
+      audit: { ...DEFAULT_AUDIT_OPTIONS },
+      history: { ...DEFAULT_HISTORY_OPTIONS },
+      savedQueries: [],
+      pool: { ...DEFAULT_POOL_CONFIG },
       connections: []
     };
 
@@ -219,54 +439,80 @@ export class ConnectionManager {
     return config;
   }
 
-  async connect(name: string): Promise<oracledb.Connection> {
+  getQueryTimeout(name: string): number {
+    const config = this.getConnectionConfig(name);
+    return config.queryTimeout ?? this.config.queryTimeout;
+  }
+
+  getPoolConfig(name: string): PoolConfig {
+    const config = this.getConnectionConfig(name);
+    return { ...this.config.pool, ...config.pool };
+  }
+
+  getPolicy(name: string): SafetyPolicy {
+    const config = this.getConnectionConfig(name);
+    return resolvePolicy(this.config.policy, config.policy);
+  }
+
+  /**
+   * Create the session pool for a connection, or return it if it already exists.
+   * Concurrent callers share a single pool creation.
+   */
+  async connect(name: string): Promise<oracledb.Pool> {
     this.initialize();
 
-    // Return existing connection if still valid
-    const existing = this.connections.get(name);
+    const existing = this.pools.get(name);
     if (existing) {
-      try {
-        await existing.ping();
-        console.error(`Reusing existing connection to '${name}'`);
-        return existing;
-      } catch {
-        console.error(`Existing connection to '${name}' is stale, reconnecting`);
-        this.connections.delete(name);
-      }
+      return existing;
     }
 
+    let pending = this.pendingPools.get(name);
+    if (!pending) {
+      pending = this.createPool(name).finally(() => this.pendingPools.delete(name));
+      this.pendingPools.set(name, pending);
+    }
+    return pending;
+  }
+
+  private async createPool(name: string): Promise<oracledb.Pool> {
     const config = this.getConnectionConfig(name);
+    const poolConfig = this.getPoolConfig(name);
 
-    console.error(`Connecting to '${name}' (${getDsn(config)})`);
+    console.error(`Creating connection pool for '${name}' (${getDsn(config)})`);
 
-    const connection = await oracledb.getConnection({
+    const pool = await oracledb.createPool({
       user: config.username,
       password: getPassword(config),
       connectString: getDsn(config),
+      poolMin: poolConfig.poolMin,
+      poolMax: poolConfig.poolMax,
+      poolIncrement: poolConfig.poolIncrement,
+      poolTimeout: poolConfig.poolTimeout,
+      stmtCacheSize: poolConfig.stmtCacheSize,
+      enableStatistics: true,
     });
 
-    // Set session to read-only if configured
-    if (config.mode === ConnectionMode.READONLY) {
-      await connection.execute('SET TRANSACTION READ ONLY');
-      console.error(`Connection '${name}' set to READ ONLY mode`);
-    }
-
-    this.connections.set(name, connection);
-    console.error(`Successfully connected to '${name}'`);
+    this.pools.set(name, pool);
+    console.error(
+      `Connection pool for '${name}' ready (min: ${poolConfig.poolMin}, max: ${poolConfig.poolMax})`
+    );
 
-    return connection;
+    return pool;
   }
 
   async disconnect(name: string): Promise<boolean> {
-    const connection = this.connections.get(name);
-    if (connection) {
+    await this.releasePinnedConnection(name);
+
+    const pool = this.pools.get(name);
+    if (pool) {
       try {
-        await connection.close();
+        // Close immediately, terminating any sessions still in use
+        await pool.close(0);
         console.error(`Disconnected from '${name}'`);
       } catch (e) {
-        console.error(`Error closing connection '${name}':`, e);
+        console.error(`Error closing connection pool '${name}':`, e);
       } finally {
-        this.connections.delete(name);
+        this.pools.delete(name);
       }
       return true;
     }
@@ -275,7 +521,7 @@ export class ConnectionManager {
 
   async disconnectAll(): Promise<number> {
     let count = 0;
-    for (const name of Array.from(this.connections.keys())) {
+    for (const name of Array.from(this.pools.keys())) {
       if (await this.disconnect(name)) {
         count++;
       }
@@ -284,29 +530,359 @@ export class ConnectionManager {
   }
 
   async isConnected(name: string): Promise<boolean> {
-    const connection = this.connections.get(name);
-    if (!connection) {
+    const pool = this.pools.get(name);
+    if (!pool) {
       return false;
     }
-    try {
-      await connection.ping();
-      return true;
-    } catch {
-      this.connections.delete(name);
+    if (pool.status !== oracledb.POOL_STATUS_OPEN) {
+      this.pools.delete(name);
       return false;
     }
+    return true;
   }
 
+  /**
+   * Borrow a session for a connection. Returns the pinned session when one
+   * holds uncommitted work, otherwise a session from the pool. Every borrowed
+   * session must be handed back with releaseConnection().
+   */
   async getConnection(name: string): Promise<oracledb.Connection> {
-    if (await this.isConnected(name)) {
-      return this.connections.get(name)!;
+    // Sessions start each borrow with the configured timeout (0 disables it)
+    const callTimeout = Math.round(this.getQueryTimeout(name) * 1000);
+
+    const pinned = this.pinnedSessions.get(name);
+    if (pinned) {
+      pinned.busy++;
+      clearTimeout(pinned.idleTimer);
+      pinned.info.lastActivityAt = new Date().toISOString();
+      pinned.connection.callTimeout = callTimeout;
+      return pinned.connection;
+    }
+    const pool = await this.connect(name);
+    const connection = await pool.getConnection();
+    connection.callTimeout = callTimeout;
+
+    // Every borrowed session on a read-only connection starts inside a fresh
+    // read-only transaction
+    if (this.getConnectionConfig(name).mode === ConnectionMode.READONLY) {
+      try {
+        await this.restoreReadOnly(connection);
+      } catch (e) {
+        await connection.close({ drop: true }).catch(() => undefined);
+        throw e;
+      }
+    }
+
+    return connection;
+  }
+
+  /**
+   * End any open transaction and start a new read-only one. SET TRANSACTION
+   * only lasts until the next COMMIT or ROLLBACK, so this runs after every
+   * transaction boundary on a read-only connection.
+   */
+  async restoreReadOnly(connection: oracledb.Connection): Promise<void> {
+    await connection.execute('BEGIN ROLLBACK; SET TRANSACTION READ ONLY; END;');
+  }
+
+  /**
+   * Commit or roll back the session's transaction, re-establishing the
+   * read-only transaction afterwards on read-only connections.
+   */
+  async endTransaction(
+    name: string,
+    connection: oracledb.Connection,
+    action: 'commit' | 'rollback'
+  ): Promise<void> {
+    if (action === 'commit') {
+      await connection.commit();
+    } else {
+      await connection.rollback();
+    }
+    if (this.getConnectionConfig(name).mode === ConnectionMode.READONLY) {
+      await this.restoreReadOnly(connection);
+    }
+  }
+
+  /**
+   * Prove a read-only session cannot write. SELECT ... FOR UPDATE is rejected
+   * with ORA-01456 inside a read-only transaction; if it succeeds, the lock is
+   * rolled back straight away and the session is reported as writable.
+   */
+  private async verifyReadOnly(
+    connection: oracledb.Connection
+  ): Promise<{ verified: boolean; detail: string }> {
+    try {
+      await connection.execute('SELECT dummy FROM dual FOR UPDATE');
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      if (error.includes('ORA-01456')) {
+        return { verified: true, detail: 'Write attempt rejected (ORA-01456)' };
+      }
+      return { verified: false, detail: `Unexpected error during write check: ${error}` };
+    }
+
+    await this.restoreReadOnly(connection);
+    return { verified: false, detail: 'Write attempt succeeded - session is NOT read-only' };
+  }
+
+  async releaseConnection(name: string, connection: oracledb.Connection): Promise<void> {
+    if (this.discarded.has(connection)) {
+      return;
+    }
+    const pinned = this.pinnedSessions.get(name);
+    if (pinned?.connection === connection) {
+      pinned.busy = Math.max(0, pinned.busy - 1);
+      pinned.info.lastActivityAt = new Date().toISOString();
+      if (pinned.busy === 0) {
+        this.scheduleIdleRollback(name, pinned);
+      }
+      return;
+    }
+    try {
+      await connection.close();
+    } catch (e) {
+      console.error(`Error releasing session for '${name}':`, e);
+    }
+  }
+
+  async withConnection<T>(
+    name: string,
+    work: (connection: oracledb.Connection) => Promise<T>
+  ): Promise<T> {
+    const connection = await this.getConnection(name);
+    try {
+      return await work(connection);
+    } finally {
+      await this.releaseConnection(name, connection);
+    }
+  }
+
+  /**
+   * Run driver calls on a borrowed session, applying a per-call timeout
+   * override and breaking the running statement if the client cancels.
+   */
+  async runCancellable<T>(
+    connection: oracledb.Connection,
+    options: ExecutionOptions,
+    work: () => Promise<T>
+  ): Promise<T> {
+    const { timeoutSeconds, signal } = options;
+    if (signal?.aborted) {
+      throw new Error('Request was cancelled by the client');
     }
-    return this.connect(name);
+
+    if (timeoutSeconds !== undefined) {
+      connection.callTimeout = Math.round(timeoutSeconds * 1000);
+    }
+    const timeoutMs = connection.callTimeout;
+
+    const onAbort = (): void => {
+      console.error('Request cancelled by client, breaking running statement');
+      connection.break().catch(e => console.error('Error breaking statement:', e));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await work();
+    } catch (e) {
+      if (signal?.aborted) {
+        throw new Error('Statement cancelled at client request');
+      }
+      const error = e instanceof Error ? e.message : String(e);
+      if (/NJS-123|DPI-1067/.test(error)) {
+        throw new Error(`Statement exceeded the ${timeoutMs / 1000}s timeout: ${error}`);
+      }
+      throw e;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Keep a session out of the pool so later calls (commit, rollback, further
+   * DML) see its uncommitted work. The caller still holds the session and
+   * returns it with releaseConnection(). Concurrent calls can each borrow a
+   * pool session before either pins; only the first can keep its work, so
+   * pinning a second session fails and its caller rolls back.
+   */
+  pinConnection(name: string, connection: oracledb.Connection, explicit = false): void {
+    const pinned = this.pinnedSessions.get(name);
+    if (pinned?.connection === connection) {
+      pinned.info.explicit = pinned.info.explicit || explicit;
+      return;
+    }
+    if (pinned) {
+      throw new Error(
+        `Another session on '${name}' already holds uncommitted work from a concurrent call. ` +
+          'Commit or roll it back, then run this statement again'
+      );
+    }
+
+    const now = new Date().toISOString();
+    this.pinnedSessions.set(name, {
+      connection,
+      info: { explicit, startedAt: now, lastActivityAt: now, statements: [], savepoints: [] },
+      busy: 1,
+    });
+    this.lastAutoRollbacks.delete(name);
+  }
+
+  /**
+   * Borrow the pinned session for a status lookup. Unlike getConnection(),
+   * this does not count as activity, so it never delays the idle rollback,
+   * but the session is not rolled back while borrowed. Hand it back with
+   * returnPinnedConnection().
+   */
+  borrowPinnedConnection(name: string): oracledb.Connection | undefined {
+    const pinned = this.pinnedSessions.get(name);
+    if (!pinned) {
+      return undefined;
+    }
+    pinned.busy++;
+    return pinned.connection;
+  }
+
+  returnPinnedConnection(name: string, connection: oracledb.Connection): void {
+    const pinned = this.pinnedSessions.get(name);
+    if (pinned?.connection !== connection) {
+      return;
+    }
+    pinned.busy = Math.max(0, pinned.busy - 1);
+    if (pinned.busy === 0) {
+      this.scheduleIdleRollback(name, pinned);
+    }
+  }
+
+  hasPinnedConnection(name: string): boolean {
+    return this.pinnedSessions.has(name);
+  }
+
+  /**
+   * Whether begin_transaction opened the pinned session's transaction, in
+   * which case statements must not commit on their own.
+   */
+  isExplicitTransaction(name: string): boolean {
+    return this.pinnedSessions.get(name)?.info.explicit ?? false;
+  }
+
+  getTransaction(name: string): TransactionInfo | undefined {
+    return this.pinnedSessions.get(name)?.info;
+  }
+
+  getLastAutoRollback(name: string): { at: string; statements: number } | undefined {
+    return this.lastAutoRollbacks.get(name);
+  }
+
+  getTransactionIdleTimeout(name: string): number {
+    const config = this.getConnectionConfig(name);
+    return config.transactionIdleTimeout ?? this.config.transactionIdleTimeout;
+  }
+
+  /**
+   * Forget the pinned session once its transaction has ended. The caller still
+   * holds the session and returns it with releaseConnection(). Given a
+   * session, another pinned session is left alone.
+   */
+  unpinConnection(name: string, connection?: oracledb.Connection): void {
+    const pinned = this.pinnedSessions.get(name);
+    if (pinned && (!connection || pinned.connection === connection)) {
+      clearTimeout(pinned.idleTimer);
+      this.pinnedSessions.delete(name);
+    }
+  }
+
+  /**
+   * Return a pinned session to the pool. Closing a pooled session rolls back
+   * anything still uncommitted, so callers commit first if they need to.
+   */
+  async releasePinnedConnection(name: string): Promise<void> {
+    const pinned = this.pinnedSessions.get(name);
+    if (!pinned) {
+      return;
+    }
+    this.unpinConnection(name);
+    try {
+      await pinned.connection.close();
+    } catch (e) {
+      console.error(`Error releasing pinned session for '${name}':`, e);
+    }
+  }
+
+  /**
+   * Drop a session whose state can no longer be trusted, e.g. one that could
+   * not re-enter its read-only transaction, instead of returning it to the
+   * pool. Closing it rolls back anything uncommitted, including the work of
+   * a pinned session. Later releaseConnection() calls for it do nothing.
+   */
+  async discardConnection(name: string, connection: oracledb.Connection): Promise<void> {
+    if (this.discarded.has(connection)) {
+      return;
+    }
+    this.discarded.add(connection);
+    this.unpinConnection(name, connection);
+    try {
+      await connection.close({ drop: true });
+    } catch (e) {
+      console.error(`Error dropping session for '${name}':`, e);
+    }
+  }
+
+  // Roll back a transaction nobody has touched for the idle timeout, counted
+  // from its last activity
+  private scheduleIdleRollback(name: string, pinned: PinnedSession): void {
+    clearTimeout(pinned.idleTimer);
+    const timeout = this.getTransactionIdleTimeout(name);
+    if (timeout <= 0) {
+      return;
+    }
+    const idleMs = Date.now() - Date.parse(pinned.info.lastActivityAt);
+
+    pinned.idleTimer = setTimeout(() => {
+      if (this.pinnedSessions.get(name) !== pinned || pinned.busy > 0) {
+        return;
+      }
+      this.unpinConnection(name);
+      this.lastAutoRollbacks.set(name, {
+        at: new Date().toISOString(),
+        statements: pinned.info.statements.length,
+      });
+      console.error(
+        `Rolling back transaction on '${name}' after ${timeout}s idle ` +
+          `(${pinned.info.statements.length} statement(s))`
+      );
+      pinned.connection
+        .rollback()
+        .catch(e => console.error(`Idle rollback failed on '${name}':`, e))
+        .finally(() =>
+          pinned.connection
+            .close()
+            .catch(e => console.error(`Error releasing pinned session for '${name}':`, e))
+        );
+    }, Math.max(0, timeout * 1000 - idleMs));
+    // Do not keep the process alive just to roll back
+    pinned.idleTimer.unref();
+  }
+
+  getPoolStats(name: string): PoolStats | undefined {
+    const pool = this.pools.get(name);
+    if (!pool) {
+      return undefined;
+    }
+    const stats = pool.getStatistics();
+    return {
+      open: pool.connectionsOpen,
+      inUse: pool.connectionsInUse,
+      queued: stats?.currentQueueLength ?? 0,
+      min: pool.poolMin,
+      max: pool.poolMax,
+    };
   }
 
   async listConnections(): Promise<ConnectionInfo[]> {
     const result: ConnectionInfo[] = [];
     for (const [name, config] of this.connectionConfigs) {
+      const connected = await this.isConnected(name);
       result.push({
         name,
         host: config.host || '(connection string)',
@@ -314,7 +890,9 @@ export class ConnectionManager {
         service: config.serviceName || config.sid || '(in connection string)',
         username: config.username,
         mode: config.mode,
-        connected: await this.isConnected(name),
+        connected,
+        pool: connected ? this.getPoolStats(name) : undefined,
+        policy: this.getPolicy(name),
       });
     }
     return result;
@@ -324,36 +902,55 @@ export class ConnectionManager {
     const config = this.getConnectionConfig(name);
 
     try {
-      const connection = await this.connect(name);
+      const { version, dbName, schema, readOnlyCheck } = await this.withConnection(name, async connection => {
+        // Get database info
+        let version = 'Unknown';
+        let dbName = 'Unknown';
+        let schema = 'Unknown';
+
+        try {
+          const versionResult = await connection.execute<[string]>(
+            'SELECT banner FROM v$version WHERE ROWNUM = 1'
+          );
+          if (versionResult.rows && versionResult.rows.length > 0) {
+            version = versionResult.rows[0][0];
+          }
+        } catch {
+          // May not have access to v$version
+        }
 
-      // Get database info
-      let version = 'Unknown';
-      let dbName = 'Unknown';
-      let schema = 'Unknown';
+        const dbNameResult = await connection.execute<[string]>(
+          "SELECT SYS_CONTEXT('USERENV', 'DB_NAME') FROM DUAL"
+        );
+        if (dbNameResult.rows && dbNameResult.rows.length > 0) {
+          dbName = dbNameResult.rows[0][0];
+        }
 
-      try {
-        const versionResult = await connection.execute<[string]>(
-          'SELECT banner FROM v$version WHERE ROWNUM = 1'
+        const schemaResult = await connection.execute<[string]>(
+          "SELECT SYS_CONTEXT('USERENV', 'CURRENT_SCHEMA') FROM DUAL"
         );
-        if (versionResult.rows && versionResult.rows.length > 0) {
-          version = versionResult.rows[0][0];
+        if (schemaResult.rows && schemaResult.rows.length > 0) {
+          schema = schemaResult.rows[0][0];
         }
-      } catch {
-        // May not have access to v$version
-      }
 
-      const dbNameResult = await connection.execute<[string]>(
-        "SELECT SYS_CONTEXT('USERENV', 'DB_NAME') FROM DUAL"
-      );
-      if (dbNameResult.rows && dbNameResult.rows.length > 0) {
-        dbName = dbNameResult.rows[0][0];
-      }
+        const readOnlyCheck =
+          config.mode === ConnectionMode.READONLY ? await this.verifyReadOnly(connection) : undefined;
 
-      const schemaResult = await connection.execute<[string]>(
-        "SELECT SYS_CONTEXT('USERENV', 'CURRENT_SCHEMA') FROM DUAL"
-      );
-      if (schemaResult.rows && schemaResult.rows.length > 0) {
-        schema = schemaResult.rows[0][0];
+        return { version, dbName, schema, readOnlyCheck };
+      });
+
+      if (readOnlyCheck && !readOnlyCheck.verified) {
+        return {
+          success: false,
+          name,
+          database: dbName,
+          schema,
+          version,
+          mode: config.mode,
+          readOnlyVerified: false,
+          error: readOnlyCheck.detail,
+          message: `Connected to '${name}' but could not verify read-only mode: ${readOnlyCheck.detail}`,
+        };
       }
 
       return {
@@ -363,6 +960,7 @@ export class ConnectionManager {
         schema,
         version,
         mode: config.mode,
+        readOnlyVerified: readOnlyCheck?.verified,
         message: `Successfully connected to '${name}'`,
       };
     } catch (e) {
@@ -376,4 +974,3 @@ export class ConnectionManager {
     }
   }
 }
-
@@ -0,0 +1,202 @@
+/**
+ * Cursor Registry for Oracle MCP Server
+ *
+ * Holds open result sets between tool calls so large query results can be
+ * paged with continuation tokens instead of re-executing the query.
+ */
+
+import oracledb from 'oracledb';
+import { randomBytes } from 'crypto';
+import { ConnectionManager } from './connection-manager.js';
+import { RowMasker } from './masking.js';
+import { ExecutionOptions, ResultColumn } from './types.js';
+
+interface OpenCursor {
+  token: string;
+  connectionName: string;
+  // The session stays borrowed while the cursor is open
+  connection: oracledb.Connection;
+  resultSet: oracledb.ResultSet<unknown[]>;
+  columns: ResultColumn[];
+  // Look-ahead rows already fetched from the result set but not yet returned
+  buffer: unknown[][];
+  rowsReturned: number;
+  // Masking applied to every page, as to the first one
+  masker?: RowMasker;
+  lastUsed: number;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+export interface CursorPage {
+  columns: ResultColumn[];
+  rows: unknown[][];
+  // 1-based position of the first row in the page
+  firstRow: number;
+  hasMore: boolean;
+}
+
+export class CursorRegistry {
+  private connectionManager: ConnectionManager;
+  private idleTimeoutSeconds: number;
+  private maxPerConnection: number;
+  private cursors: Map<string, OpenCursor> = new Map();
+
+  constructor(connectionManager: ConnectionManager) {
+    this.connectionManager = connectionManager;
+    const serverConfig = connectionManager.getServerConfig();
+    this.idleTimeoutSeconds = serverConfig.cursorIdleTimeout;
+    this.maxPerConnection = serverConfig.maxOpenCursors;
+  }
+
+  /**
+   * Register a result set that still has rows. Takes ownership of the session:
+   * it is released when the cursor is exhausted, closed or expires. If the
+   * connection is at its cursor limit, the least recently used cursor is
+   * closed and its token returned as `evicted`.
+   */
+  async open(
+    connectionName: string,
+    connection: oracledb.Connection,
+    resultSet: oracledb.ResultSet<unknown[]>,
+    columns: ResultColumn[],
+    buffer: unknown[][],
+    rowsReturned: number,
+    masker?: RowMasker
+  ): Promise<{ token: string; evicted?: string }> {
+    let evicted: string | undefined;
+    const open = Array.from(this.cursors.values()).filter(c => c.connectionName === connectionName);
+    if (open.length >= this.maxPerConnection) {
+      const oldest = open.reduce((a, b) => (a.lastUsed <= b.lastUsed ? a : b));
+      evicted = oldest.token;
+      await this.close(oldest.token);
+    }
+
+    const cursor: OpenCursor = {
+      token: randomBytes(6).toString('hex'),
+      connectionName,
+      connection,
+      resultSet,
+      columns,
+      buffer,
+      rowsReturned,
+      masker,
+      lastUsed: Date.now(),
+    };
+    this.cursors.set(cursor.token, cursor);
+    this.scheduleExpiry(cursor);
+
+    return { token: cursor.token, evicted };
+  }
+
+  /**
+   * Fetch the next page. The cursor is closed once it is exhausted or if the
+   * fetch fails. `transform` runs on the page rows while the session is still
+   * held, e.g. to read LOB locators.
+   */
+  async fetch(
+    token: string,
+    maxRows: number,
+    options: ExecutionOptions = {},
+    transform?: (rows: unknown[][]) => Promise<unknown[][]>
+  ): Promise<CursorPage> {
+    const cursor = this.cursors.get(token);
+    if (!cursor) {
+      throw new Error(`Continuation token '${token}' is unknown or has expired. Re-run the query.`);
+    }
+
+    let rows: unknown[][];
+    let pageRows: unknown[][];
+    try {
+      // Read one row past the page to know whether more remain
+      const needed = Math.max(0, maxRows + 1 - cursor.buffer.length);
+      const fetched =
+        needed > 0
+          ? await this.connectionManager.runCancellable(cursor.connection, options, () =>
+              cursor.resultSet.getRows(needed)
+            )
+          : [];
+      rows = [...cursor.buffer, ...fetched];
+      pageRows = rows.slice(0, maxRows);
+      if (transform) {
+        pageRows = await transform(pageRows);
+      }
+      if (cursor.masker) {
+        pageRows = cursor.masker.maskRows(pageRows);
+      }
+    } catch (e) {
+      await this.close(token);
+      throw e;
+    }
+
+    const hasMore = rows.length > maxRows;
+    const page: CursorPage = {
+      columns: cursor.columns,
+      rows: pageRows,
+      firstRow: cursor.rowsReturned + 1,
+      hasMore,
+    };
+
+    if (hasMore) {
+      cursor.buffer = rows.slice(maxRows);
+      cursor.rowsReturned += maxRows;
+      cursor.lastUsed = Date.now();
+      this.scheduleExpiry(cursor);
+    } else {
+      await this.close(token);
+    }
+
+    return page;
+  }
+
+  async close(token: string): Promise<boolean> {
+    const cursor = this.cursors.get(token);
+    if (!cursor) {
+      return false;
+    }
+
+    this.cursors.delete(token);
+    clearTimeout(cursor.expiryTimer);
+
+    try {
+      await cursor.resultSet.close();
+    } catch (e) {
+      console.error(`Error closing cursor '${token}':`, e);
+    }
+    await this.connectionManager.releaseConnection(cursor.connectionName, cursor.connection);
+    return true;
+  }
+
+  async closeForConnection(connectionName: string): Promise<number> {
+    let count = 0;
+    for (const cursor of Array.from(this.cursors.values())) {
+      if (cursor.connectionName === connectionName && (await this.close(cursor.token))) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async closeAll(): Promise<number> {
+    let count = 0;
+    for (const token of Array.from(this.cursors.keys())) {
+      if (await this.close(token)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private scheduleExpiry(cursor: OpenCursor): void {
+    clearTimeout(cursor.expiryTimer);
+    if (this.idleTimeoutSeconds <= 0) {
+      return;
+    }
+
+    cursor.expiryTimer = setTimeout(() => {
+      console.error(`Cursor '${cursor.token}' on '${cursor.connectionName}' expired after being idle`);
+      void this.close(cursor.token);
+    }, this.idleTimeoutSeconds * 1000);
+    // Idle cursors must not keep the process alive
+    cursor.expiryTimer.unref();
+  }
+}
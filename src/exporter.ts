@@ -0,0 +1,268 @@
+/**
+ * Result Exporter for Oracle MCP Server
+ *
+ * Encodes query rows as CSV (RFC 4180), JSON Lines or SQL INSERT statements
+ * and streams them to files in the configured export directory.
+ */
+
+import { createWriteStream, existsSync, mkdirSync, renameSync, unlinkSync, WriteStream } from 'fs';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { ExportOptions, ResultColumn } from './types.js';
+
+// ============================================================================
+// Export Paths
+// ============================================================================
+
+/**
+ * Resolve a requested file name inside the export directory. Absolute paths
+ * and paths that climb out of the directory are rejected.
+ */
+export function resolveExportPath(exportDir: string, file: string): string {
+  if (!file || isAbsolute(file)) {
+    throw new Error('Export file must be a relative path inside the export directory');
+  }
+
+  const root = resolve(exportDir);
+  const target = resolve(root, file);
+  const rel = relative(root, target);
+  if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error(`Export file '${file}' is outside the export directory`);
+  }
+  return target;
+}
+
+// ============================================================================
+// Row Encoders
+// ============================================================================
+
+export interface RowEncoder {
+  header(): string;
+  row(values: unknown[]): string;
+}
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, '0');
+}
+
+// Dates are written in UTC so files do not depend on the server's time zone
+function formatTimestamp(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}` +
+    `.${pad(date.getUTCMilliseconds(), 3)}`
+  );
+}
+
+function csvEncoder(columns: ResultColumn[], options: ExportOptions): RowEncoder {
+  const delimiter = options.delimiter ?? ',';
+  if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    throw new Error('CSV delimiter must be a single character other than a quote or line break');
+  }
+
+  const field = (value: unknown): string => {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    let text: string;
+    if (value instanceof Date) {
+      text = formatTimestamp(value);
+    } else if (Buffer.isBuffer(value)) {
+      text = value.toString('hex').toUpperCase();
+    } else {
+      text = String(value);
+    }
+
+    if (options.quoteAll || text.includes(delimiter) || /["\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  };
+
+  // RFC 4180 uses CRLF record separators
+  const line = (values: unknown[]): string => values.map(field).join(delimiter) + '\r\n';
+
+  return {
+    header: () => (options.header === false ? '' : line(columns.map(col => col.name))),
+    row: line,
+  };
+}
+
+function jsonlEncoder(columns: ResultColumn[]): RowEncoder {
+  const jsonValue = (value: unknown): unknown => {
+    if (value === undefined) {
+      return null;
+    }
+    if (Buffer.isBuffer(value)) {
+      return value.toString('base64');
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    return value;
+  };
+
+  return {
+    header: () => '',
+    row: values => {
+      const record: Record<string, unknown> = {};
+      columns.forEach((col, i) => {
+        record[col.name] = jsonValue(values[i]);
+      });
+      return JSON.stringify(record) + '\n';
+    },
+  };
+}
+
+const NUMERIC_TEXT = /^-?(\d+\.?\d*|\.\d+)(E[+-]?\d+)?$/i;
+
+function quoteIdentifier(name: string): string {
+  // Keep plain uppercase names readable; quote anything Oracle would fold
+  if (/^[A-Z][A-Z0-9_$#]*$/.test(name)) {
+    return name;
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function sqlEncoder(columns: ResultColumn[], options: ExportOptions): RowEncoder {
+  if (!options.tableName) {
+    throw new Error('table_name is required for the sql export format');
+  }
+
+  // Unquoted parts of the table name fold to uppercase as they would in Oracle
+  const table = options.tableName
+    .split('.')
+    .map(part =>
+      /^".*"$/.test(part) ? quoteIdentifier(part.slice(1, -1)) : quoteIdentifier(part.toUpperCase())
+    )
+    .join('.');
+  const columnList = columns.map(col => quoteIdentifier(col.name)).join(', ');
+
+  const literal = (value: unknown, column: ResultColumn): string => {
+    if (value === null || value === undefined) {
+      return 'NULL';
+    }
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      return String(value);
+    }
+    // NUMBER columns fetched as strings keep their exact digits unquoted
+    if (column.dbType === 'NUMBER' && typeof value === 'string' && NUMERIC_TEXT.test(value)) {
+      return value;
+    }
+    if (value instanceof Date) {
+      return `TO_TIMESTAMP('${formatTimestamp(value)}', 'YYYY-MM-DD HH24:MI:SS.FF3')`;
+    }
+    if (Buffer.isBuffer(value)) {
+      return `HEXTORAW('${value.toString('hex').toUpperCase()}')`;
+    }
+    return `'${String(value).replace(/'/g, "''")}'`;
+  };
+
+  return {
+    header: () => '',
+    row: values => {
+      const literals = values.map((value, i) => literal(value, columns[i]));
+      return `INSERT INTO ${table} (${columnList}) VALUES (${literals.join(', ')});\n`;
+    },
+  };
+}
+
+export function createRowEncoder(columns: ResultColumn[], options: ExportOptions): RowEncoder {
+  switch (options.format) {
+    case 'csv':
+      return csvEncoder(columns, options);
+    case 'jsonl':
+      return jsonlEncoder(columns);
+    case 'sql':
+      return sqlEncoder(columns, options);
+    default:
+      throw new Error(`Unsupported export format '${String(options.format)}'`);
+  }
+}
+
+// ============================================================================
+// Export File Writer
+// ============================================================================
+
+/**
+ * Writes to a temporary file beside the target and renames it into place on
+ * finish, so a failed export never leaves a truncated file behind.
+ */
+export class ExportFileWriter {
+  readonly path: string;
+  private tempPath: string;
+  private stream: WriteStream;
+  private bytes = 0;
+  private error?: Error;
+
+  constructor(path: string, overwrite = false) {
+    if (existsSync(path) && !overwrite) {
+      throw new Error(`Export file '${path}' already exists (set overwrite to replace it)`);
+    }
+
+    mkdirSync(dirname(path), { recursive: true });
+    this.path = path;
+    this.tempPath = `${path}.partial`;
+    this.stream = createWriteStream(this.tempPath, { encoding: 'utf8' });
+    // Keep stream errors (e.g. an unwritable directory) from crashing the server
+    this.stream.on('error', e => {
+      this.error = e;
+    });
+  }
+
+  get bytesWritten(): number {
+    return this.bytes;
+  }
+
+  async write(chunk: string): Promise<void> {
+    if (this.error) {
+      throw this.error;
+    }
+    if (!chunk) {
+      return;
+    }
+    this.bytes += Buffer.byteLength(chunk, 'utf8');
+    if (!this.stream.write(chunk)) {
+      await this.settle('drain');
+    }
+  }
+
+  async finish(): Promise<void> {
+    this.stream.end();
+    await this.settle('finish');
+    renameSync(this.tempPath, this.path);
+  }
+
+  // Wait for a stream event, failing if the stream errors first
+  private settle(event: 'drain' | 'finish'): Promise<void> {
+    return new Promise<void>((resolveEvent, reject) => {
+      if (this.error) {
+        reject(this.error);
+        return;
+      }
+      const onError = (e: Error) => {
+        this.stream.off(event, onEvent);
+        reject(e);
+      };
+      const onEvent = () => {
+        this.stream.off('error', onError);
+        resolveEvent();
+      };
+      this.stream.once('error', onError);
+      this.stream.once(event, onEvent);
+    });
+  }
+
+  async abort(): Promise<void> {
+    if (!this.stream.closed) {
+      await new Promise<void>(resolveClose => {
+        this.stream.once('close', () => resolveClose());
+        this.stream.destroy();
+      });
+    }
+    try {
+      unlinkSync(this.tempPath);
+    } catch {
+      // Nothing was written
+    }
+  }
+}
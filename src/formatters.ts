@@ -7,13 +7,22 @@
 
 import {
   QueryResult,
+  ResultColumn,
   TableInfo,
   ColumnInfo,
   ConnectionInfo,
   SchemaObject,
   ProcedureParam,
   ExplainPlanStep,
+  ExportResult,
+  LobChunk,
+  AuditEntry,
+  HistoryEntry,
+  TransactionStatus,
+  ImportResult,
+  ComparisonResult,
 } from './types.js';
+import { describePolicy } from './safety-policy.js';
 
 // ============================================================================
 // Value Serialization
@@ -27,7 +36,8 @@ function serializeValue(value: unknown): unknown {
     return value.toISOString();
   }
   if (typeof value === 'bigint') {
-    return Number(value);
+    // Only values a double holds exactly stay numeric in JSON
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
   }
   if (Buffer.isBuffer(value)) {
     return `<BLOB: ${value.length} bytes>`;
@@ -39,6 +49,85 @@ function serializeValue(value: unknown): unknown {
   return value;
 }
 
+// ============================================================================
+// Type-Aware Rendering
+// ============================================================================
+
+const NUMERIC_TYPES = ['NUMBER', 'BINARY_FLOAT', 'BINARY_DOUBLE', 'BINARY_INTEGER', 'PLS_INTEGER'];
+
+// RAW values longer than this are summarized instead of shown in full
+const MAX_RAW_DISPLAY_BYTES = 64;
+
+function isNumericColumn(column: ResultColumn): boolean {
+  return NUMERIC_TYPES.includes(column.dbType);
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// DATE and TIMESTAMP carry no time zone; the driver maps them to local time
+function formatLocalDateTime(date: Date, withFraction: boolean): string {
+  const text =
+    `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())} ` +
+    `${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}`;
+  return withFraction ? `${text}.${String(date.getMilliseconds()).padStart(3, '0')}` : text;
+}
+
+function formatInterval(value: Record<string, number>): string {
+  if ('years' in value) {
+    const negative = value.years < 0 || value.months < 0;
+    return `${negative ? '-' : '+'}${Math.abs(value.years)}-${pad2(Math.abs(value.months))}`;
+  }
+
+  const parts = [value.days, value.hours, value.minutes, value.seconds, value.fseconds || 0];
+  const negative = parts.some(p => p < 0);
+  const [days, hours, minutes, seconds, nanos] = parts.map(Math.abs);
+  const fraction = nanos > 0 ? '.' + String(nanos).padStart(9, '0').replace(/0+$/, '') : '';
+  return (
+    `${negative ? '-' : '+'}${days} ${pad2(hours)}:${pad2(minutes)}:${pad2(seconds)}${fraction}`
+  );
+}
+
+function isInterval(value: unknown): value is Record<string, number> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (('years' in value && 'months' in value) || ('days' in value && 'seconds' in value))
+  );
+}
+
+/**
+ * Render a value for a Markdown cell according to its column type.
+ */
+function renderCell(value: unknown, column?: ResultColumn): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date && column) {
+    if (column.dbType === 'DATE') {
+      return formatLocalDateTime(value, false);
+    }
+    if (column.dbType === 'TIMESTAMP') {
+      return formatLocalDateTime(value, true);
+    }
+  }
+
+  if (Buffer.isBuffer(value) && column?.dbType === 'RAW') {
+    if (value.length > MAX_RAW_DISPLAY_BYTES) {
+      return `<RAW: ${value.length} bytes>`;
+    }
+    return value.toString('hex').toUpperCase();
+  }
+
+  if (isInterval(value)) {
+    return formatInterval(value);
+  }
+
+  return String(serializeValue(value) ?? '');
+}
+
 function padRight(str: string, len: number): string {
   return str + ' '.repeat(Math.max(0, len - str.length));
 }
@@ -110,6 +199,34 @@ function createMarkdownTable(
   return [headerRow, separatorRow, ...dataRows].join('\n');
 }
 
+function createResultTable(columns: ResultColumn[], rows: unknown[][]): string {
+  return createMarkdownTable(
+    columns.map(col => col.name),
+    rows.map(row => row.map((v, i) => renderCell(v, columns[i]))),
+    columns.map(col => (isNumericColumn(col) ? 'right' : 'left'))
+  );
+}
+
+function cellToJson(value: unknown, column: ResultColumn): unknown {
+  if (isInterval(value)) {
+    return formatInterval(value);
+  }
+  if (Buffer.isBuffer(value) && column.dbType === 'RAW') {
+    return value.toString('hex').toUpperCase();
+  }
+  return serializeValue(value);
+}
+
+function rowsToObjects(columns: ResultColumn[], rows: unknown[][]): Record<string, unknown>[] {
+  return rows.map(row => {
+    const obj: Record<string, unknown> = {};
+    columns.forEach((col, i) => {
+      obj[col.name] = cellToJson(row[i], col);
+    });
+    return obj;
+  });
+}
+
 // ============================================================================
 // Query Result Formatters
 // ============================================================================
@@ -144,13 +261,54 @@ export function formatQueryResultMarkdown(result: QueryResult): string {
   if (result.columns && result.rows && result.rows.length > 0) {
     lines.push('');
 
-    // Convert rows to string format
-    const formattedRows = result.rows.map(row =>
-      (row as unknown[]).map(v => String(serializeValue(v) ?? ''))
+    lines.push(createResultTable(result.columns, result.rows));
+  }
+
+  // Note masked columns so masked values are not mistaken for data
+  const masked = [
+    ...(result.columns || []),
+    ...(result.resultSets || []).flatMap(resultSet => resultSet.columns),
+  ].filter(col => col.masked);
+  if (masked.length > 0) {
+    const names = new Set(masked.map(col => `${col.name} (${col.masked})`));
+    lines.push('');
+    lines.push(`🔒 *Masked columns: ${Array.from(names).join(', ')}*`);
+  }
+
+  // Add additional row sets, e.g. dry-run samples
+  for (const resultSet of result.resultSets || []) {
+    lines.push('');
+    lines.push(`**${resultSet.title}** (${resultSet.rows.length} row(s))`);
+    if (resultSet.rows.length > 0) {
+      lines.push('');
+      lines.push(createResultTable(resultSet.columns, resultSet.rows));
+    }
+  }
+
+  // Add failed rows of a batch
+  if (result.batchErrors && result.batchErrors.length > 0) {
+    lines.push('');
+    lines.push(`**Failed rows** (${result.batchErrors.length})`);
+    lines.push('');
+    lines.push(
+      createMarkdownTable(
+        ['Row', 'Error'],
+        result.batchErrors.map(e => [String(e.index), e.error.replace(/\|/g, '\\|')]),
+        ['right', 'left']
+      )
     );
+  }
 
-    const table = createMarkdownTable(result.columns, formattedRows);
-    lines.push(table);
+  // Add confirmation token for held statements
+  if (result.confirmationToken) {
+    lines.push('');
+    lines.push(`🔑 Confirmation token: \`${result.confirmationToken}\``);
+  }
+
+  // Add continuation token for paged results
+  if (result.continuationToken) {
+    lines.push('');
+    lines.push(`*More rows available. Continuation token: \`${result.continuationToken}\`*`);
   }
 
   // Add output parameters if present
@@ -162,6 +320,24 @@ export function formatQueryResultMarkdown(result: QueryResult): string {
     }
   }
 
+  // Add captured DBMS_OUTPUT
+  if (result.output) {
+    lines.push('');
+    lines.push(`**DBMS_OUTPUT** (${result.output.length} line(s))`);
+    if (result.output.length > 0) {
+      // The fence must be longer than any backtick run in the output
+      const longestRun = Math.max(
+        0,
+        ...result.output.map(line => Math.max(0, ...(line.match(/`+/g) || []).map(r => r.length)))
+      );
+      const fence = '`'.repeat(Math.max(3, longestRun + 1));
+      lines.push('');
+      lines.push(fence);
+      lines.push(...result.output);
+      lines.push(fence);
+    }
+  }
+
   // Add execution time
   if (result.executionTime && result.executionTime > 0) {
     lines.push('');
@@ -183,28 +359,47 @@ export function formatQueryResultJson(result: QueryResult): string {
     queryType: result.queryType,
   };
 
-  if (result.columns && result.rows && result.rows.length > 0) {
+  // The column schema is included even when no rows matched
+  if (result.columns && result.rows) {
     data.columns = result.columns;
     data.rowCount = result.rowCount;
-    data.rows = result.rows.map(row => {
-      const obj: Record<string, unknown> = {};
-      result.columns!.forEach((col, i) => {
-        obj[col] = serializeValue((row as unknown[])[i]);
-      });
-      return obj;
-    });
+    data.rows = rowsToObjects(result.columns, result.rows);
+  }
+
+  if (result.resultSets && result.resultSets.length > 0) {
+    data.resultSets = result.resultSets.map(resultSet => ({
+      title: resultSet.title,
+      columns: resultSet.columns,
+      rows: rowsToObjects(resultSet.columns, resultSet.rows),
+    }));
+  }
+
+  if (result.continuationToken) {
+    data.continuationToken = result.continuationToken;
+  }
+
+  if (result.confirmationToken) {
+    data.confirmationToken = result.confirmationToken;
   }
 
   if (result.affectedRows && result.affectedRows > 0) {
     data.affectedRows = result.affectedRows;
   }
 
+  if (result.batchErrors) {
+    data.batchErrors = result.batchErrors;
+  }
+
   if (result.outputParams) {
     data.outputParams = Object.fromEntries(
       Object.entries(result.outputParams).map(([k, v]) => [k, serializeValue(v)])
     );
   }
 
+  if (result.output) {
+    data.output = result.output;
+  }
+
   if (result.warnings && result.warnings.length > 0) {
     data.warnings = result.warnings;
   }
@@ -220,6 +415,173 @@ export function formatQueryResultJson(result: QueryResult): string {
   return JSON.stringify(data, null, 2);
 }
 
+// ============================================================================
+// Comparison Formatters
+// ============================================================================
+
+function formatListedRows(
+  title: string,
+  columns: ResultColumn[],
+  rows: unknown[][],
+  total: number
+): string[] {
+  if (total === 0) {
+    return [];
+  }
+  const lines = ['', `**${title}** (${total})`, '', createResultTable(columns, rows)];
+  if (total > rows.length) {
+    lines.push('');
+    lines.push(`*Showing the first ${rows.length} of ${total} rows.*`);
+  }
+  return lines;
+}
+
+export function formatComparisonMarkdown(result: ComparisonResult): string {
+  const lines = [`${result.success ? '✅' : '❌'} **${result.message}**`];
+
+  for (const warning of result.warnings || []) {
+    lines.push('');
+    lines.push(warning);
+  }
+  if (result.confirmationToken) {
+    lines.push('');
+    lines.push(`🔑 Confirmation token: \`${result.confirmationToken}\``);
+  }
+  if (!result.success || !result.columns) {
+    return lines.join('\n');
+  }
+
+  const { connectionA, connectionB, columns } = result;
+  lines.push('');
+  lines.push(`- **${connectionA}:** ${result.rowCountA} row(s)`);
+  lines.push(`- **${connectionB}:** ${result.rowCountB} row(s)`);
+  lines.push(
+    `- **Matched by:** ${result.keyColumns ? `key ${result.keyColumns.join(', ')}` : 'whole rows'}`
+  );
+  lines.push(`- **Matching rows:** ${result.matchingRows}`);
+  if (result.columnsOnlyInA && result.columnsOnlyInA.length > 0) {
+    lines.push(`- **Columns only in ${connectionA}:** ${result.columnsOnlyInA.join(', ')}`);
+  }
+  if (result.columnsOnlyInB && result.columnsOnlyInB.length > 0) {
+    lines.push(`- **Columns only in ${connectionB}:** ${result.columnsOnlyInB.join(', ')}`);
+  }
+
+  lines.push(
+    ...formatListedRows(
+      `Only in ${connectionA}`,
+      columns,
+      result.onlyInA || [],
+      result.onlyInACount || 0
+    ),
+    ...formatListedRows(
+      `Only in ${connectionB}`,
+      columns,
+      result.onlyInB || [],
+      result.onlyInBCount || 0
+    )
+  );
+
+  // One line per changed cell, led by the row's key
+  const changed = result.changed || [];
+  if (changed.length > 0) {
+    const keyColumns = (result.keyColumns || []).map(
+      name => columns.find(col => col.name === name)!
+    );
+    const byName = new Map(columns.map(col => [col.name, col]));
+    const rows = changed.flatMap(row =>
+      row.cells.map(cell => [
+        ...row.key.map((value, i) => renderCell(value, keyColumns[i])),
+        cell.column,
+        renderCell(cell.a, byName.get(cell.column)),
+        renderCell(cell.b, byName.get(cell.column)),
+      ])
+    );
+
+    lines.push('');
+    lines.push(`**Changed rows** (${result.changedCount})`);
+    lines.push('');
+    lines.push(
+      createMarkdownTable(
+        [...keyColumns.map(col => col.name), 'Column', connectionA, connectionB],
+        rows,
+        keyColumns.map(col => (isNumericColumn(col) ? 'right' : 'left'))
+      )
+    );
+    if ((result.changedCount || 0) > changed.length) {
+      lines.push('');
+      lines.push(`*Showing the first ${changed.length} of ${result.changedCount} changed rows.*`);
+    }
+  }
+
+  if (result.executionTime && result.executionTime > 0) {
+    lines.push('');
+    lines.push(`*Execution time: ${result.executionTime.toFixed(3)}s*`);
+  }
+
+  return lines.join('\n');
+}
+
+export function formatComparisonJson(result: ComparisonResult): string {
+  const data: Record<string, unknown> = {
+    success: result.success,
+    message: result.message,
+    connections: { a: result.connectionA, b: result.connectionB },
+  };
+
+  if (result.success && result.columns) {
+    const columns = result.columns;
+    const byName = new Map(columns.map(col => [col.name, col]));
+    data.keyColumns = result.keyColumns ?? null;
+    data.columns = columns;
+    data.columnsOnlyInA = result.columnsOnlyInA;
+    data.columnsOnlyInB = result.columnsOnlyInB;
+    data.rowCount = { a: result.rowCountA, b: result.rowCountB };
+    data.matchingRows = result.matchingRows;
+    data.onlyInA = {
+      count: result.onlyInACount,
+      rows: rowsToObjects(columns, result.onlyInA || []),
+    };
+    data.onlyInB = {
+      count: result.onlyInBCount,
+      rows: rowsToObjects(columns, result.onlyInB || []),
+    };
+    data.changed = {
+      count: result.changedCount,
+      rows: (result.changed || []).map(row => ({
+        key: Object.fromEntries(
+          (result.keyColumns || []).map((name, i) => [
+            name,
+            cellToJson(row.key[i], byName.get(name)!),
+          ])
+        ),
+        cells: row.cells.map(cell => ({
+          column: cell.column,
+          a: cellToJson(cell.a, byName.get(cell.column)!),
+          b: cellToJson(cell.b, byName.get(cell.column)!),
+        })),
+      })),
+    };
+  }
+
+  if (result.warnings && result.warnings.length > 0) {
+    data.warnings = result.warnings;
+  }
+
+  if (result.confirmationToken) {
+    data.confirmationToken = result.confirmationToken;
+  }
+
+  if (result.error) {
+    data.error = result.error;
+  }
+
+  if (result.executionTime && result.executionTime > 0) {
+    data.executionTime = `${result.executionTime.toFixed(3)}s`;
+  }
+
+  return JSON.stringify(data, null, 2);
+}
+
 // ============================================================================
 // Table Info Formatters
 // ============================================================================
@@ -271,17 +633,22 @@ export function formatTableInfoMarkdown(tableInfo: TableInfo): string {
   lines.push('### Columns');
   lines.push('');
 
-  const columnData = tableInfo.columns.map(col => [
-    String(col.columnId),
-    col.name,
-    formatDataType(col),
-    col.nullable ? '✓' : '✗',
-    col.defaultValue || '',
-    col.comments || '',
-  ]);
+  const hasMasking = tableInfo.columns.some(col => col.masked);
+  const columnData = tableInfo.columns.map(col => {
+    const row = [
+      String(col.columnId),
+      col.name,
+      formatDataType(col),
+      col.nullable ? '✓' : '✗',
+      col.defaultValue || '',
+      col.comments || '',
+    ];
+    return hasMasking ? [...row, col.masked ? `🔒 ${col.masked}` : ''] : row;
+  });
 
+  const headers = ['#', 'Column', 'Data Type', 'Nullable', 'Default', 'Comments'];
   const columnTable = createMarkdownTable(
-    ['#', 'Column', 'Data Type', 'Nullable', 'Default', 'Comments'],
+    hasMasking ? [...headers, 'Masked'] : headers,
     columnData
   );
   lines.push(columnTable);
@@ -345,6 +712,7 @@ export function formatTableInfoJson(tableInfo: TableInfo): string {
       default: col.defaultValue,
       comments: col.comments,
       position: col.columnId,
+      masked: col.masked,
     })),
     constraints: tableInfo.constraints.map(con => ({
       name: con.name,
@@ -387,11 +755,17 @@ export function formatConnectionsList(connections: ConnectionInfo[]): string {
       hostInfo += `:${conn.port}`;
     }
 
-    return [conn.name, hostInfo, conn.service || '', conn.username, mode, status];
+    const pool = conn.pool
+      ? `${conn.pool.open}/${conn.pool.max} open, ${conn.pool.inUse} in use, ${conn.pool.queued} queued`
+      : '';
+
+    const policy = describePolicy(conn.policy).join('; ') || 'default';
+
+    return [conn.name, hostInfo, conn.service || '', conn.username, mode, status, pool, policy];
   });
 
   const table = createMarkdownTable(
-    ['Name', 'Host', 'Service', 'User', 'Mode', 'Status'],
+    ['Name', 'Host', 'Service', 'User', 'Mode', 'Status', 'Pool', 'Policy'],
     tableData
   );
   lines.push(table);
@@ -525,6 +899,7 @@ export function formatProcedureParams(params: ProcedureParam[], procName: string
     'IN/OUT': '↔️',
   };
 
+  const overloaded = params.some(param => param.overload !== undefined);
   const tableData = params.map(param => {
     const directionIcon = directionIconMap[param.direction] || '';
 
@@ -539,21 +914,320 @@ export function formatProcedureParams(params: ProcedureParam[], procName: string
       }
     }
 
-    return [
+    const row = [
       String(param.position),
-      param.name,
+      param.position === 0 ? '*(return value)*' : param.name,
       `${directionIcon} ${param.direction}`,
       dataType,
       param.hasDefault ? 'Yes' : 'No',
     ];
+    return overloaded ? [String(param.overload ?? ''), ...row] : row;
   });
 
-  const table = createMarkdownTable(
-    ['#', 'Name', 'Direction', 'Data Type', 'Has Default'],
-    tableData
-  );
+  const headers = ['#', 'Name', 'Direction', 'Data Type', 'Has Default'];
+  const table = createMarkdownTable(overloaded ? ['Overload', ...headers] : headers, tableData);
   lines.push(table);
 
+  if (overloaded) {
+    lines.push('');
+    lines.push('*Pass `overload` to execute_procedure when the parameters match more than one.*');
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Export Result Formatter
+// ============================================================================
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatExportResult(result: ExportResult): string {
+  const lines = [`${result.success ? '✅' : '❌'} **${result.message}**`];
+
+  for (const warning of result.warnings || []) {
+    lines.push('');
+    lines.push(warning);
+  }
+  if (result.confirmationToken) {
+    lines.push('');
+    lines.push(`🔑 Confirmation token: \`${result.confirmationToken}\``);
+  }
+  if (!result.success) {
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  lines.push(`- **File:** \`${result.file}\``);
+  lines.push(`- **Format:** ${result.format}`);
+  lines.push(`- **Rows:** ${result.rowCount}`);
+  lines.push(`- **Size:** ${formatBytes(result.bytesWritten || 0)}`);
+  if (result.executionTime !== undefined) {
+    lines.push(`- **Elapsed:** ${result.executionTime.toFixed(3)}s`);
+  }
+
+  return lines.join('\n');
+}
+
+export function formatImportResult(result: ImportResult): string {
+  const lines = [`${result.success ? '✅' : '❌'} **${result.message}**`];
+
+  for (const warning of result.warnings || []) {
+    lines.push('');
+    lines.push(warning);
+  }
+  if (result.confirmationToken) {
+    lines.push('');
+    lines.push(`🔑 Confirmation token: \`${result.confirmationToken}\``);
+  }
+  if (result.rowsRead === undefined) {
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  lines.push(`- **File:** \`${result.file}\``);
+  lines.push(`- **Table:** ${result.table}`);
+  lines.push(`- **Columns:** ${(result.columns || []).join(', ')}`);
+  lines.push(`- **Rows read:** ${result.rowsRead}`);
+  lines.push(`- **Rows ${result.dryRun ? 'valid' : 'inserted'}:** ${
+    result.dryRun ? result.rowsRead - (result.rowsRejected || 0) : result.rowsInserted
+  }`);
+  lines.push(`- **Rows rejected:** ${result.rowsRejected}`);
+  if (result.rejectFile) {
+    lines.push(`- **Reject file:** \`${result.rejectFile}\``);
+  }
+  if (result.executionTime !== undefined) {
+    lines.push(`- **Elapsed:** ${result.executionTime.toFixed(3)}s`);
+  }
+
+  if (result.rejects && result.rejects.length > 0) {
+    lines.push('');
+    lines.push(
+      createMarkdownTable(
+        ['Line', 'Error'],
+        result.rejects.map(r => [String(r.line), r.error.replace(/\|/g, '\\|')]),
+        ['right', 'left']
+      )
+    );
+    if ((result.rowsRejected || 0) > result.rejects.length) {
+      lines.push('');
+      lines.push(
+        `*Showing the first ${result.rejects.length} of ${result.rowsRejected} rejected rows.*`
+      );
+    }
+  }
+
   return lines.join('\n');
 }
 
+// ============================================================================
+// LOB Chunk Formatter
+// ============================================================================
+
+export function formatLobChunk(chunk: LobChunk): string {
+  if (!chunk.success) {
+    return `❌ **${chunk.message}**`;
+  }
+
+  const lines = [`✅ **${chunk.message}**`];
+  if (chunk.data === undefined) {
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  lines.push(`- **Type:** ${chunk.lobType}`);
+  lines.push(`- **Total length:** ${chunk.totalLength}`);
+  if (chunk.encoding !== 'text') {
+    lines.push(`- **Encoding:** ${chunk.encoding}`);
+  }
+  if (chunk.hasMore) {
+    lines.push(`- **Next offset:** ${(chunk.offset || 1) + (chunk.length || 0)}`);
+  }
+  lines.push('');
+  lines.push('```');
+  lines.push(chunk.data);
+  lines.push('```');
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Audit Log Formatter
+// ============================================================================
+
+const SQL_PREVIEW_LENGTH = 80;
+
+// One-line SQL for a table cell
+function sqlPreview(sql: string): string {
+  const oneLine = sql.replace(/\s+/g, ' ').trim();
+  const preview =
+    oneLine.length > SQL_PREVIEW_LENGTH ? `${oneLine.slice(0, SQL_PREVIEW_LENGTH)}…` : oneLine;
+  return '`' + preview.replace(/`/g, "'").replace(/\|/g, '\\|') + '`';
+}
+
+export function formatAuditLog(entries: AuditEntry[], total: number, path: string): string {
+  const lines = ['## Audit Log', ''];
+
+  if (entries.length === 0) {
+    lines.push(`*No matching entries in \`${path}\`.*`);
+    return lines.join('\n');
+  }
+
+  const tableData = entries.map(entry => {
+    const rows = entry.rowsAffected ?? entry.rowsReturned;
+    const transaction = entry.dryRun ? 'dry run' : entry.transaction?.replace('_', ' ') || '';
+    const status = entry.success ? '✅' : `❌ ${(entry.error || '').replace(/\|/g, '\\|')}`;
+    return [
+      entry.timestamp,
+      entry.connection,
+      entry.dbUser,
+      entry.tool,
+      entry.queryType || '',
+      entry.dangerLevel || '',
+      rows === undefined ? '' : String(rows),
+      `${entry.durationMs} ms`,
+      transaction,
+      status,
+      sqlPreview(entry.sql),
+    ];
+  });
+
+  lines.push(
+    createMarkdownTable(
+      [
+        'Time',
+        'Connection',
+        'User',
+        'Tool',
+        'Type',
+        'Risk',
+        'Rows',
+        'Duration',
+        'Transaction',
+        'Status',
+        'SQL',
+      ],
+      tableData,
+      ['left', 'left', 'left', 'left', 'left', 'left', 'right', 'right', 'left', 'left', 'left']
+    )
+  );
+
+  lines.push('');
+  lines.push(
+    total > entries.length
+      ? `*Showing the ${entries.length} most recent of ${total} matching entries.*`
+      : `*${total} matching entr${total === 1 ? 'y' : 'ies'}.*`
+  );
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Query History Formatter
+// ============================================================================
+
+export function formatQueryHistory(entries: HistoryEntry[], total: number): string {
+  const lines = ['## Query History', ''];
+
+  if (entries.length === 0) {
+    lines.push('*No matching statements.*');
+    return lines.join('\n');
+  }
+
+  const tableData = entries.map(entry => {
+    const rows = entry.affectedRows ?? entry.rowCount;
+    const status = entry.success ? '✅' : `❌ ${(entry.error || '').replace(/\|/g, '\\|')}`;
+    return [
+      String(entry.id),
+      entry.timestamp,
+      entry.connection,
+      entry.tool,
+      rows === undefined ? '' : String(rows),
+      `${entry.durationMs} ms`,
+      status,
+      sqlPreview(entry.sql),
+    ];
+  });
+
+  lines.push(
+    createMarkdownTable(
+      ['ID', 'Time', 'Connection', 'Tool', 'Rows', 'Duration', 'Status', 'SQL'],
+      tableData,
+      ['right', 'left', 'left', 'left', 'right', 'right', 'left', 'left']
+    )
+  );
+
+  lines.push('');
+  lines.push(
+    total > entries.length
+      ? `*Showing the ${entries.length} most recent of ${total} matching statements. Use rerun_query with an ID to run one again.*`
+      : `*Use rerun_query with an ID to run a statement again.*`
+  );
+
+  return lines.join('\n');
+}
+
+export function formatTransactionStatus(status: TransactionStatus): string {
+  const lines = [`## Transaction Status: ${status.connection}`, ''];
+  const idleLimit = status.idleTimeout > 0 ? `${status.idleTimeout}s` : 'disabled';
+
+  if (!status.open || !status.transaction) {
+    lines.push('*No open transaction.*');
+    if (status.lastAutoRollback) {
+      lines.push('');
+      lines.push(
+        `⚠️ The last transaction was rolled back automatically at ${status.lastAutoRollback.at} ` +
+          `after sitting idle (${status.lastAutoRollback.statements} statement(s) undone).`
+      );
+    }
+    lines.push('');
+    lines.push(`**Idle rollback:** ${idleLimit}`);
+    return lines.join('\n');
+  }
+
+  const { transaction } = status;
+  lines.push(`**Started by:** ${transaction.explicit ? 'begin_transaction' : 'uncommitted statement'}`);
+  lines.push(`**Uncommitted work:** ${status.hasUncommittedWork ? 'Yes' : 'No'}`);
+  if (status.transactionId) {
+    lines.push(`**Transaction ID:** ${status.transactionId}`);
+  }
+  lines.push(`**Open for:** ${status.durationSeconds}s (since ${transaction.startedAt})`);
+  lines.push(`**Idle for:** ${status.idleSeconds}s`);
+  lines.push(`**Idle rollback:** ${idleLimit}`);
+  if (transaction.savepoints.length > 0) {
+    lines.push(`**Savepoints:** ${transaction.savepoints.map(sp => sp.name).join(', ')}`);
+  }
+  lines.push('');
+
+  if (transaction.statements.length === 0) {
+    lines.push('*No statements recorded in this transaction yet.*');
+    return lines.join('\n');
+  }
+
+  lines.push('### Statements');
+  lines.push('');
+  const tableData = transaction.statements.map((statement, index) => [
+    String(index + 1),
+    statement.timestamp,
+    statement.tool,
+    statement.affectedRows === undefined ? '' : String(statement.affectedRows),
+    sqlPreview(statement.sql),
+  ]);
+  lines.push(
+    createMarkdownTable(
+      ['#', 'Time', 'Tool', 'Rows', 'SQL'],
+      tableData,
+      ['right', 'left', 'left', 'right', 'left']
+    )
+  );
+
+  return lines.join('\n');
+}
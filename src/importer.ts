@@ -0,0 +1,354 @@
+/**
+ * CSV Importer for Oracle MCP Server
+ *
+ * Reads CSV files (RFC 4180) from the configured import directory, maps
+ * their header to table columns and converts each field to a bind value
+ * using the column metadata from describe_table.
+ */
+
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { BindType, ColumnInfo, ImportOptions } from './types.js';
+
+// Files are read into memory, so very large ones are refused
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+export interface CsvRecord {
+  // 1-based line the record starts on
+  line: number;
+  fields: string[];
+}
+
+export interface ColumnMapping {
+  // Position of the field in each CSV record
+  field: number;
+  column: ColumnInfo;
+  bindType: BindType;
+}
+
+// ============================================================================
+// Import Paths
+// ============================================================================
+
+/**
+ * Resolve a requested file name inside the import directory. Absolute paths
+ * and paths that climb out of the directory are rejected.
+ */
+export function resolveImportPath(importDir: string, file: string): string {
+  if (!file || isAbsolute(file)) {
+    throw new Error('Import file must be a relative path inside the import directory');
+  }
+
+  const root = resolve(importDir);
+  const target = resolve(root, file);
+  const rel = relative(root, target);
+  if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error(`Import file '${file}' is outside the import directory`);
+  }
+  return target;
+}
+
+// ============================================================================
+// CSV Parsing
+// ============================================================================
+
+export function parseCsv(text: string, delimiter = ','): CsvRecord[] {
+  if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    throw new Error('CSV delimiter must be a single character other than a quote or line break');
+  }
+
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = (): void => {
+    fields.push(field);
+    // Blank lines carry no data
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') {
+          line++;
+        }
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+  return records;
+}
+
+export function readCsvFile(path: string, delimiter?: string): CsvRecord[] {
+  if (!existsSync(path)) {
+    throw new Error(`Import file '${path}' does not exist`);
+  }
+  const size = statSync(path).size;
+  if (size > MAX_IMPORT_BYTES) {
+    throw new Error(
+      `Import file is ${size} bytes; files over ${MAX_IMPORT_BYTES} bytes must be split first`
+    );
+  }
+  // Drop the byte order mark spreadsheet tools often write
+  return parseCsv(readFileSync(path, 'utf8').replace(/^\uFEFF/, ''), delimiter);
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Write rejected records with their original fields plus the line number
+ * and reason, so the file can be fixed and imported again.
+ */
+export function writeRejectFile(
+  path: string,
+  header: string[] | undefined,
+  rejects: { record: CsvRecord; error: string }[]
+): void {
+  const lines: string[] = [];
+  if (header) {
+    lines.push([...header, 'IMPORT_LINE', 'IMPORT_ERROR'].map(csvField).join(','));
+  }
+  for (const { record, error } of rejects) {
+    lines.push([...record.fields, String(record.line), error].map(csvField).join(','));
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+// ============================================================================
+// Column Mapping
+// ============================================================================
+
+function bindTypeFor(column: ColumnInfo): BindType | undefined {
+  const type = column.dataType.toUpperCase();
+  if (['NUMBER', 'FLOAT', 'BINARY_FLOAT', 'BINARY_DOUBLE', 'INTEGER'].includes(type)) {
+    return 'number';
+  }
+  if (type === 'DATE') {
+    return 'date';
+  }
+  if (type.startsWith('TIMESTAMP')) {
+    return 'timestamp';
+  }
+  if (['VARCHAR2', 'NVARCHAR2', 'CHAR', 'NCHAR', 'CLOB', 'NCLOB'].includes(type)) {
+    return 'string';
+  }
+  return undefined;
+}
+
+/**
+ * Match CSV headers (or the given column list) to table columns. Matching is
+ * case-insensitive; columnMap renames headers, and mapping a header to an
+ * empty string skips it.
+ */
+export function mapColumns(
+  headers: string[],
+  columns: ColumnInfo[],
+  columnMap: Record<string, string> = {}
+): ColumnMapping[] {
+  const mappings: ColumnMapping[] = [];
+  const unknown: string[] = [];
+
+  headers.forEach((header, field) => {
+    const name = header.trim();
+    const mapped = Object.entries(columnMap).find(
+      ([key]) => key.toUpperCase() === name.toUpperCase()
+    );
+    const target = mapped ? mapped[1] : name;
+    if (!target) {
+      return;
+    }
+
+    const column = columns.find(c => c.name.toUpperCase() === target.toUpperCase());
+    if (!column) {
+      unknown.push(name);
+      return;
+    }
+    if (mappings.some(m => m.column.name === column.name)) {
+      throw new Error(`Column ${column.name} is mapped from more than one CSV field`);
+    }
+    const bindType = bindTypeFor(column);
+    if (!bindType) {
+      throw new Error(
+        `Column ${column.name} has type ${column.dataType}, which CSV import does not support`
+      );
+    }
+    mappings.push({ field, column, bindType });
+  });
+
+  if (unknown.length > 0) {
+    throw new Error(
+      `CSV field(s) ${unknown.join(', ')} match no column of the table. ` +
+        'Map them with column_map, or map them to "" to skip them.'
+    );
+  }
+  if (mappings.length === 0) {
+    throw new Error('No CSV field maps to a column of the table');
+  }
+  return mappings;
+}
+
+// ============================================================================
+// Value Conversion
+// ============================================================================
+
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  MM: '(\\d{1,2})',
+  DD: '(\\d{1,2})',
+  HH24: '(\\d{1,2})',
+  HH: '(\\d{1,2})',
+  MI: '(\\d{1,2})',
+  SS: '(\\d{1,2})',
+  FF: '(\\d{1,9})',
+};
+
+/**
+ * Parse a date using an Oracle-style format (YYYY, MM, DD, HH24, MI, SS, FF).
+ * Without a format, ISO 8601 dates and timestamps are accepted. Values
+ * without a time zone are read as UTC.
+ */
+export function parseDate(value: string, format?: string): Date {
+  if (!format) {
+    const iso = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/i.exec(
+      value
+    );
+    if (!iso) {
+      throw new Error(`'${value}' is not an ISO 8601 date; set date_format to read other layouts`);
+    }
+    const text = value.replace(' ', 'T');
+    const date = new Date(iso[4] ? text : `${text}${iso[1] ? '' : 'T00:00:00'}Z`);
+    if (isNaN(date.getTime())) {
+      throw new Error(`'${value}' is not a valid date`);
+    }
+    return date;
+  }
+
+  const order: string[] = [];
+  const pattern = format
+    .toUpperCase()
+    .split(/(YYYY|HH24|MM|DD|HH|MI|SS|FF\d?)/)
+    .map(part => {
+      const token = part.replace(/^FF\d$/, 'FF');
+      if (FORMAT_TOKENS[token]) {
+        order.push(token);
+        return FORMAT_TOKENS[token];
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  const match = new RegExp(`^${pattern}$`).exec(value);
+  if (!match) {
+    throw new Error(`'${value}' does not match the format ${format}`);
+  }
+
+  const part = (token: string): number => {
+    const index = order.indexOf(token);
+    return index < 0 ? 0 : parseInt(match[index + 1], 10);
+  };
+  const fraction = order.includes('FF') ? match[order.indexOf('FF') + 1] : '0';
+  const year = part('YYYY');
+  const month = order.includes('MM') ? part('MM') : 1;
+  const day = order.includes('DD') ? part('DD') : 1;
+  const hour = order.includes('HH24') ? part('HH24') : part('HH');
+  const ms = Math.round(parseFloat(`0.${fraction}`) * 1000);
+
+  const date = new Date(Date.UTC(year, month - 1, day, hour, part('MI'), part('SS'), ms));
+  // Date.UTC rolls over invalid values such as February 30th
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    hour > 23 ||
+    part('MI') > 59 ||
+    part('SS') > 59
+  ) {
+    throw new Error(`'${value}' is not a valid date`);
+  }
+  return date;
+}
+
+/**
+ * Convert one CSV field for its column. Empty fields are NULL. Numbers stay
+ * text so no digits are lost; dates become ISO strings for the batch binds.
+ */
+export function convertField(
+  value: string,
+  mapping: ColumnMapping,
+  options: Pick<ImportOptions, 'dateFormat' | 'timestampFormat'>
+): string | null {
+  const { column } = mapping;
+  if (value === '') {
+    if (!column.nullable) {
+      throw new Error(`${column.name} is required`);
+    }
+    return null;
+  }
+
+  switch (mapping.bindType) {
+    case 'number': {
+      const text = value.trim();
+      if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(text)) {
+        throw new Error(`${column.name}: '${value}' is not a number`);
+      }
+      return text;
+    }
+    case 'date':
+    case 'timestamp': {
+      const format = mapping.bindType === 'date' ? options.dateFormat : options.timestampFormat;
+      try {
+        return parseDate(value.trim(), format ?? options.dateFormat).toISOString();
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        throw new Error(`${column.name}: ${error}`);
+      }
+    }
+    default: {
+      const isLob = /LOB$/i.test(column.dataType);
+      const bytes = Buffer.byteLength(value, 'utf8');
+      if (!isLob && column.dataLength && bytes > column.dataLength) {
+        throw new Error(
+          `${column.name}: value is ${bytes} bytes, the column allows ${column.dataLength}`
+        );
+      }
+      return value;
+    }
+  }
+}
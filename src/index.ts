@@ -18,8 +18,9 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { ConnectionManager, getConfig, parseConfig } from './connection-manager.js';
-import { QueryExecutor } from './query-executor.js';
+import { QueryExecutor, detectQueryType } from './query-executor.js';
 import { SchemaBrowser } from './schema-browser.js';
+import { SAVED_QUERY_TOOL_PREFIX, savedQueryToolName } from './saved-queries.js';
 import {
   formatQueryResultMarkdown,
   formatQueryResultJson,
@@ -30,7 +31,24 @@ import {
   formatProceduresList,
   formatExplainPlan,
   formatProcedureParams,
+  formatExportResult,
+  formatLobChunk,
+  formatAuditLog,
+  formatQueryHistory,
+  formatTransactionStatus,
+  formatImportResult,
+  formatComparisonMarkdown,
+  formatComparisonJson,
 } from './formatters.js';
+import {
+  BatchBindTypes,
+  BindValues,
+  ExportFormat,
+  LobOptions,
+  ProcedureOutType,
+  QueryType,
+  SavedQuery,
+} from './types.js';
 
 // ============================================================================
 // Global Instances
@@ -59,11 +77,54 @@ function initializeFromConfig(mcpConfig?: Record<string, unknown>): void {
 // Tool Definitions
 // ============================================================================
 
+function bindsProperty(allowOut: boolean): Record<string, unknown> {
+  return {
+    type: ['object', 'array'],
+    description:
+      'Bind variables: an object keyed by bind name (:name) or an array for positional binds (:1, :2). ' +
+      'Values are plain JSON values or typed specs ' +
+      '{"type": "string|number|date|timestamp|clob|blob", "value": ...' +
+      (allowOut ? ', "dir": "in|out|inout", "maxSize": n' : '') +
+      '}. Dates are ISO strings, BLOBs are base64, and {"type": ..., "value": null} binds a typed NULL.' +
+      (allowOut ? ' OUT/INOUT values are returned as output parameters.' : ''),
+  };
+}
+
+// Per-call LOB settings from tool arguments
+function lobOverrides(args: Record<string, unknown>): Partial<LobOptions> {
+  const overrides: Partial<LobOptions> = {};
+  if (args.lob_max_chars !== undefined) {
+    overrides.maxChars = args.lob_max_chars as number;
+  }
+  if (args.blob_preview !== undefined) {
+    overrides.blobPreview = args.blob_preview as LobOptions['blobPreview'];
+  }
+  return overrides;
+}
+
+const confirmationTokenProperty = {
+  type: 'string',
+  description:
+    'Token returned when a high-risk statement or expensive query was held for confirmation. Resubmit the identical statement and binds with it to run the statement.',
+};
+
+const captureOutputProperties = {
+  capture_output: {
+    type: 'boolean',
+    description: 'Return lines written with DBMS_OUTPUT.PUT_LINE (default: false)',
+    default: false,
+  },
+  max_output_lines: {
+    type: 'integer',
+    description: 'Maximum DBMS_OUTPUT lines to return (default: server setting maxOutputLines)',
+  },
+};
+
 const TOOLS: Tool[] = [
   {
     name: 'list_connections',
     description:
-      'List all configured Oracle database connections with their status (connected/disconnected) and mode (readonly/readwrite).',
+      'List all configured Oracle database connections with their status (connected/disconnected), mode (readonly/readwrite) and session pool usage.',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -87,7 +148,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'connect',
-    description: 'Establish a connection to a named Oracle database.',
+    description: 'Open the session pool for a named Oracle database.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -101,7 +162,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'disconnect',
-    description: 'Close a connection to a named Oracle database.',
+    description: 'Close the session pool for a named Oracle database.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -126,8 +187,9 @@ const TOOLS: Tool[] = [
         },
         sql: {
           type: 'string',
-          description: 'SQL SELECT query to execute',
+          description: 'SQL SELECT query to execute (WITH ... SELECT is supported)',
         },
+        binds: bindsProperty(false),
         max_rows: {
           type: 'integer',
           description: 'Maximum number of rows to return (default: 100)',
@@ -139,14 +201,243 @@ const TOOLS: Tool[] = [
           description: 'Output format (default: markdown)',
           default: 'markdown',
         },
+        lob_max_chars: {
+          type: 'integer',
+          description:
+            'Characters of each CLOB/NCLOB value to return before truncating (default: server lob.maxChars, 0 for no limit)',
+        },
+        blob_preview: {
+          type: 'string',
+          enum: ['none', 'hex', 'base64'],
+          description: 'Render BLOB/RAW values as their size only, or with a hex or base64 preview (default: server setting)',
+        },
+        numbers_as_strings: {
+          type: 'boolean',
+          description:
+            'Return NUMBER columns as exact decimal strings instead of JSON numbers, which lose digits beyond ~15 significant figures (default: server setting)',
+        },
+        confirmation_token: confirmationTokenProperty,
+        timeout_seconds: {
+          type: 'number',
+          description:
+            'Statement timeout in seconds for this call (default: connection or server query timeout, 0 disables)',
+        },
       },
       required: ['connection', 'sql'],
     },
   },
+  {
+    name: 'fetch_more',
+    description:
+      'Fetch the next page of rows from a query that returned a continuation token. Cursors left idle are closed automatically.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        token: {
+          type: 'string',
+          description: 'Continuation token returned by execute_query or a previous fetch_more',
+        },
+        max_rows: {
+          type: 'integer',
+          description: 'Maximum number of rows to return (default: 100)',
+          default: 100,
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'json'],
+          description: 'Output format (default: markdown)',
+          default: 'markdown',
+        },
+        lob_max_chars: {
+          type: 'integer',
+          description:
+            'Characters of each CLOB/NCLOB value to return before truncating (default: server lob.maxChars, 0 for no limit)',
+        },
+        blob_preview: {
+          type: 'string',
+          enum: ['none', 'hex', 'base64'],
+          description: 'Render BLOB/RAW values as their size only, or with a hex or base64 preview (default: server setting)',
+        },
+        timeout_seconds: {
+          type: 'number',
+          description:
+            'Fetch timeout in seconds for this call (default: connection or server query timeout, 0 disables)',
+        },
+      },
+      required: ['token'],
+    },
+  },
+  {
+    name: 'read_lob',
+    description:
+      'Read a CLOB, NCLOB or BLOB value in chunks, addressed by table, column and ROWID (select ROWID alongside the LOB column to get it). Use it for values truncated in query results.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection to use',
+        },
+        table: {
+          type: 'string',
+          description: 'Table containing the LOB column',
+        },
+        schema: {
+          type: 'string',
+          description: 'Schema owning the table (default: current user)',
+        },
+        column: {
+          type: 'string',
+          description: 'LOB column name',
+        },
+        rowid: {
+          type: 'string',
+          description: 'ROWID of the row',
+        },
+        offset: {
+          type: 'integer',
+          description: '1-based character (CLOB) or byte (BLOB) position to start at (default: 1)',
+          default: 1,
+        },
+        length: {
+          type: 'integer',
+          description: 'Characters or bytes to read (default: 32767)',
+        },
+        encoding: {
+          type: 'string',
+          enum: ['hex', 'base64'],
+          description: 'Encoding for BLOB data (default: base64)',
+          default: 'base64',
+        },
+      },
+      required: ['connection', 'table', 'column', 'rowid'],
+    },
+  },
+  {
+    name: 'export_query',
+    description:
+      'Stream the full result of a SELECT query to a file in the export directory as CSV, JSON Lines or SQL INSERT statements. Returns the file path, row count, bytes written and elapsed time instead of the rows.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection to use',
+        },
+        sql: {
+          type: 'string',
+          description: 'SQL SELECT query to export',
+        },
+        binds: bindsProperty(false),
+        format: {
+          type: 'string',
+          enum: ['csv', 'jsonl', 'sql'],
+          description: 'File format: csv (RFC 4180), jsonl (one JSON object per row) or sql (INSERT statements)',
+        },
+        file: {
+          type: 'string',
+          description: 'File name relative to the export directory (subdirectories are created)',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace the file if it already exists (default: false)',
+          default: false,
+        },
+        delimiter: {
+          type: 'string',
+          description: 'CSV field delimiter (default: ",")',
+        },
+        quote_all: {
+          type: 'boolean',
+          description: 'CSV: quote every field instead of only fields that need it (default: false)',
+          default: false,
+        },
+        header: {
+          type: 'boolean',
+          description: 'CSV: write a header row with column names (default: true)',
+          default: true,
+        },
+        table_name: {
+          type: 'string',
+          description: 'SQL: table name used in the INSERT statements (required for the sql format)',
+        },
+        numbers_as_strings: {
+          type: 'boolean',
+          description:
+            'Return NUMBER columns as exact decimal strings instead of JSON numbers, which lose digits beyond ~15 significant figures (default: server setting)',
+        },
+        confirmation_token: confirmationTokenProperty,
+        timeout_seconds: {
+          type: 'number',
+          description:
+            'Timeout in seconds for each database call of the export (default: connection or server query timeout, 0 disables)',
+        },
+      },
+      required: ['connection', 'sql', 'format', 'file'],
+    },
+  },
+  {
+    name: 'compare_query',
+    description:
+      'Run the same SELECT query on two connections and compare the results. Rows are aligned by key columns, or as whole rows without them; reports rows found only on one side and, with key columns, the cells that differ.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection_a: {
+          type: 'string',
+          description: 'First connection, e.g. dev',
+        },
+        connection_b: {
+          type: 'string',
+          description: 'Second connection, e.g. prod',
+        },
+        sql: {
+          type: 'string',
+          description: 'SQL SELECT query to run on both connections',
+        },
+        binds: bindsProperty(false),
+        key_columns: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Columns identifying a row. Rows with the same key are compared cell by cell; without key columns whole rows are matched',
+        },
+        max_rows: {
+          type: 'integer',
+          description:
+            'Maximum rows read from each connection (default: 1000). Larger results are refused rather than compared in part',
+          default: 1000,
+        },
+        max_differences: {
+          type: 'integer',
+          description: 'Rows listed for each kind of difference (default: 50); counts cover all of them',
+          default: 50,
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'json'],
+          description: 'Output format (default: markdown)',
+          default: 'markdown',
+        },
+        numbers_as_strings: {
+          type: 'boolean',
+          description:
+            'Compare NUMBER columns as exact decimal strings instead of JSON numbers, which lose digits beyond ~15 significant figures (default: server setting)',
+        },
+        confirmation_token: confirmationTokenProperty,
+        timeout_seconds: {
+          type: 'number',
+          description:
+            'Statement timeout in seconds for each query (default: connection or server query timeout, 0 disables)',
+        },
+      },
+      required: ['connection_a', 'connection_b', 'sql'],
+    },
+  },
   {
     name: 'execute_dml',
     description:
-      'Execute a DML statement (INSERT, UPDATE, DELETE) on an Oracle database. Only works on connections with readwrite mode.',
+      'Execute a DML statement (INSERT, UPDATE, DELETE, MERGE) on an Oracle database. Only works on connections with readwrite mode.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -158,19 +449,168 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'SQL DML statement to execute',
         },
+        binds: bindsProperty(true),
         commit: {
           type: 'boolean',
           description: 'Whether to commit the transaction (default: true)',
           default: true,
         },
+        confirmation_token: confirmationTokenProperty,
+        dry_run: {
+          type: 'boolean',
+          description:
+            'Preview instead of applying: run the statement inside a savepoint, report the affected row count with before/after values of a sample of rows, then roll back (default: false)',
+          default: false,
+        },
+        sample_rows: {
+          type: 'integer',
+          description: 'Dry run only: maximum affected rows to show (default: 10)',
+          default: 10,
+        },
+        timeout_seconds: {
+          type: 'number',
+          description:
+            'Statement timeout in seconds for this call (default: connection or server query timeout, 0 disables)',
+        },
       },
       required: ['connection', 'sql'],
     },
   },
+  {
+    name: 'execute_batch',
+    description:
+      'Execute one DML statement (INSERT, UPDATE, DELETE, MERGE) for many bind rows in a single round trip. Failed rows are reported individually. Only works on connections with readwrite mode.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection to use',
+        },
+        sql: {
+          type: 'string',
+          description: 'SQL DML statement with bind placeholders (:name or :1)',
+        },
+        rows: {
+          type: 'array',
+          description:
+            'Bind rows: all objects keyed by bind name, or all arrays of positional values. A bind missing from a row is NULL.',
+          items: {
+            type: ['object', 'array'],
+          },
+        },
+        bind_types: {
+          type: ['object', 'array'],
+          description:
+            'Bind types by name (or by position for array rows): string, number, date or timestamp. Binds without a type are NUMBER when every value is a number, otherwise VARCHAR2.',
+        },
+        commit: {
+          type: 'boolean',
+          description: 'Whether to commit the transaction (default: true)',
+          default: true,
+        },
+        atomic: {
+          type: 'boolean',
+          description:
+            'Roll back the whole batch if any row fails (default: true). When false, successful rows are kept and failed rows are listed.',
+          default: true,
+        },
+        confirmation_token: confirmationTokenProperty,
+        timeout_seconds: {
+          type: 'number',
+          description:
+            'Statement timeout in seconds for this call (default: connection or server query timeout, 0 disables)',
+        },
+      },
+      required: ['connection', 'sql', 'rows'],
+    },
+  },
+  {
+    name: 'import_csv',
+    description:
+      'Load a CSV file from the import directory into an existing table. Fields are converted using the column types; bad rows go to a reject file and the rest are inserted in batches. Use dry_run to validate without writing.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection to use',
+        },
+        file: {
+          type: 'string',
+          description: 'CSV file name, relative to the import directory',
+        },
+        table: {
+          type: 'string',
+          description: 'Target table',
+        },
+        schema: {
+          type: 'string',
+          description: 'Schema owner of the table (default: current schema)',
+        },
+        delimiter: {
+          type: 'string',
+          description: 'Field delimiter (default: ,)',
+        },
+        header: {
+          type: 'boolean',
+          description: 'Whether the first line names the columns (default: true)',
+          default: true,
+        },
+        columns: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Column for each field, in file order. Required when the file has no header and its fields do not follow the table column order.',
+        },
+        column_map: {
+          type: 'object',
+          description:
+            'Map CSV header names to column names, e.g. {"Customer Id": "CUSTOMER_ID"}. Map a header to "" to skip it.',
+        },
+        date_format: {
+          type: 'string',
+          description:
+            'Format of DATE fields using YYYY, MM, DD, HH24, MI, SS, e.g. DD/MM/YYYY (default: ISO 8601)',
+        },
+        timestamp_format: {
+          type: 'string',
+          description:
+            'Format of TIMESTAMP fields, also accepting FF for fractional seconds (default: date_format, then ISO 8601)',
+        },
+        batch_size: {
+          type: 'integer',
+          description: 'Rows inserted per round trip (default: 500)',
+        },
+        reject_file: {
+          type: 'string',
+          description:
+            'Reject file name relative to the import directory (default: <file>.rejects.csv)',
+        },
+        dry_run: {
+          type: 'boolean',
+          description: 'Validate and convert every row without writing anything (default: false)',
+          default: false,
+        },
+        commit: {
+          type: 'boolean',
+          description: 'Whether to commit the import (default: true)',
+          default: true,
+        },
+        confirmation_token: confirmationTokenProperty,
+        timeout_seconds: {
+          type: 'number',
+          description:
+            'Timeout in seconds for each batch (default: connection or server query timeout, 0 disables)',
+        },
+      },
+      required: ['connection', 'file', 'table'],
+    },
+  },
   {
     name: 'execute_plsql',
     description:
-      'Execute a PL/SQL block or DDL statement (CREATE FUNCTION, CREATE PROCEDURE, etc.). Only works on connections with readwrite mode.',
+      'Execute a PL/SQL block or DDL statement (CREATE FUNCTION, CREATE PROCEDURE, etc.). Result sets returned with DBMS_SQL.RETURN_RESULT are shown as tables. Only works on connections with readwrite mode.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -182,18 +622,27 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'PL/SQL block or DDL statement to execute',
         },
+        binds: bindsProperty(true),
+        confirmation_token: confirmationTokenProperty,
         commit: {
           type: 'boolean',
           description: 'Whether to commit after execution (default: true)',
           default: true,
         },
+        timeout_seconds: {
+          type: 'number',
+          description:
+            'Statement timeout in seconds for this call (default: connection or server query timeout, 0 disables)',
+        },
+        ...captureOutputProperties,
       },
       required: ['connection', 'plsql'],
     },
   },
   {
     name: 'execute_procedure',
-    description: 'Execute a stored procedure with input and output parameters.',
+    description:
+      'Call a stored procedure or function, including package members. Parameter directions and types are read from the data dictionary: OUT parameters and function results are returned automatically, and REF CURSOR outputs and implicit results (DBMS_SQL.RETURN_RESULT) are returned as result tables.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -203,22 +652,35 @@ const TOOLS: Tool[] = [
         },
         procedure: {
           type: 'string',
-          description: 'Name of the stored procedure (can include schema: SCHEMA.PROCEDURE_NAME)',
+          description:
+            'Procedure or function name: NAME, SCHEMA.NAME, PACKAGE.NAME or SCHEMA.PACKAGE.NAME',
         },
         params: {
           type: 'object',
-          description: 'Input parameters as key-value pairs',
+          description:
+            'IN and IN OUT parameter values by name. Dates and timestamps as ISO 8601 strings, BOOLEAN as true/false. Omitted parameters with defaults use them.',
           additionalProperties: true,
         },
+        overload: {
+          type: 'integer',
+          description:
+            'Overload number of a package member (see get_procedure_params), when the given params match more than one',
+        },
+        max_rows: {
+          type: 'integer',
+          description:
+            'Maximum rows to read from each REF CURSOR or implicit result (default: server default)',
+        },
         out_params: {
           type: 'object',
           description:
-            'Output parameters with their types (e.g., {"result": "string", "count": "int"})',
+            'Only for procedures whose parameters cannot be read from the dictionary (e.g. over a database link): output parameters with their types, e.g. {"result": "string", "rows": "cursor"}',
           additionalProperties: {
             type: 'string',
-            enum: ['string', 'int', 'float'],
+            enum: ['string', 'int', 'float', 'date', 'timestamp', 'clob', 'blob', 'boolean', 'cursor'],
           },
         },
+        ...captureOutputProperties,
       },
       required: ['connection', 'procedure'],
     },
@@ -302,112 +764,398 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'LIKE pattern to filter object names',
         },
-        type: {
+        type: {
+          type: 'string',
+          enum: ['PROCEDURE', 'FUNCTION', 'PACKAGE'],
+          description: 'Filter by object type',
+        },
+      },
+      required: ['connection'],
+    },
+  },
+  {
+    name: 'get_procedure_source',
+    description: 'Get the source code of a stored procedure, function, or package.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection to use',
+        },
+        name: {
+          type: 'string',
+          description: 'Name of the procedure/function/package',
+        },
+        type: {
+          type: 'string',
+          enum: ['PROCEDURE', 'FUNCTION', 'PACKAGE', 'PACKAGE BODY', 'TRIGGER'],
+          description: 'Type of the object (default: PROCEDURE)',
+          default: 'PROCEDURE',
+        },
+        schema: {
+          type: 'string',
+          description: "Schema name (defaults to current user's schema)",
+        },
+      },
+      required: ['connection', 'name'],
+    },
+  },
+  {
+    name: 'get_procedure_params',
+    description:
+      'Get the parameters of a stored procedure or function, including the return type of functions and each overload of a package member.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection to use',
+        },
+        procedure: {
+          type: 'string',
+          description: 'Name of the procedure or function, optionally PACKAGE.NAME',
+        },
+        schema: {
+          type: 'string',
+          description: "Schema name (defaults to current user's schema)",
+        },
+      },
+      required: ['connection', 'procedure'],
+    },
+  },
+  {
+    name: 'explain_query',
+    description: 'Get the execution plan for a SQL query.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection to use',
+        },
+        sql: {
+          type: 'string',
+          description: 'SQL query to explain',
+        },
+      },
+      required: ['connection', 'sql'],
+    },
+  },
+  {
+    name: 'commit',
+    description: 'Commit the current transaction on a connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection',
+        },
+      },
+      required: ['connection'],
+    },
+  },
+  {
+    name: 'rollback',
+    description: 'Rollback the current transaction on a connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection',
+        },
+      },
+      required: ['connection'],
+    },
+  },
+  {
+    name: 'begin_transaction',
+    description:
+      'Start an explicit transaction. Until commit or rollback, execute_dml, execute_batch, execute_plsql and execute_procedure share one session and do not commit on their own. DDL still commits implicitly.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection',
+        },
+      },
+      required: ['connection'],
+    },
+  },
+  {
+    name: 'savepoint',
+    description: 'Set a savepoint in the open transaction so later work can be undone back to it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the database connection',
+        },
+        name: {
           type: 'string',
-          enum: ['PROCEDURE', 'FUNCTION', 'PACKAGE'],
-          description: 'Filter by object type',
+          description: 'Savepoint name (an Oracle identifier). Reusing a name moves the savepoint.',
         },
       },
-      required: ['connection'],
+      required: ['connection', 'name'],
     },
   },
   {
-    name: 'get_procedure_source',
-    description: 'Get the source code of a stored procedure, function, or package.',
+    name: 'rollback_to_savepoint',
+    description:
+      'Undo the work done since a savepoint. The transaction stays open and earlier work is kept.',
     inputSchema: {
       type: 'object',
       properties: {
         connection: {
           type: 'string',
-          description: 'Name of the database connection to use',
+          description: 'Name of the database connection',
         },
         name: {
           type: 'string',
-          description: 'Name of the procedure/function/package',
+          description: 'Savepoint name',
         },
-        type: {
+      },
+      required: ['connection', 'name'],
+    },
+  },
+  {
+    name: 'transaction_status',
+    description:
+      'Show whether a connection has an open transaction: uncommitted work, how long it has been open and idle, savepoints and the statements run in it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
           type: 'string',
-          enum: ['PROCEDURE', 'FUNCTION', 'PACKAGE', 'PACKAGE BODY', 'TRIGGER'],
-          description: 'Type of the object (default: PROCEDURE)',
-          default: 'PROCEDURE',
+          description: 'Name of the database connection',
         },
-        schema: {
+        format: {
           type: 'string',
-          description: "Schema name (defaults to current user's schema)",
+          enum: ['markdown', 'json'],
+          description: 'Output format (default: markdown)',
         },
       },
-      required: ['connection', 'name'],
+      required: ['connection'],
     },
   },
   {
-    name: 'get_procedure_params',
-    description: 'Get the parameters of a stored procedure or function.',
+    name: 'query_history',
+    description:
+      'List statements recently run through this server, newest first, with the ids rerun_query accepts.',
     inputSchema: {
       type: 'object',
       properties: {
         connection: {
           type: 'string',
-          description: 'Name of the database connection to use',
+          description: 'Only statements run on this connection',
         },
-        procedure: {
+        text: {
           type: 'string',
-          description: 'Name of the procedure or function',
+          description: 'Case-insensitive text the SQL must contain',
         },
-        schema: {
+        status: {
           type: 'string',
-          description: "Schema name (defaults to current user's schema)",
+          enum: ['success', 'failure'],
+          description: 'Only successful or only failed statements',
+        },
+        since: {
+          type: 'string',
+          description: 'ISO 8601 timestamp: only statements run at or after this time',
+        },
+        until: {
+          type: 'string',
+          description: 'ISO 8601 timestamp: only statements run at or before this time',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum entries to return (default: 20)',
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'json'],
+          description: 'Output format (default: markdown)',
         },
       },
-      required: ['connection', 'procedure'],
     },
   },
   {
-    name: 'explain_query',
-    description: 'Get the execution plan for a SQL query.',
+    name: 'rerun_query',
+    description:
+      'Run a statement from query_history again on its original connection. Writes pass the same read-only, policy and confirmation checks as the original call.',
     inputSchema: {
       type: 'object',
       properties: {
-        connection: {
-          type: 'string',
-          description: 'Name of the database connection to use',
+        id: {
+          type: 'integer',
+          description: 'History entry id from query_history',
         },
-        sql: {
+        max_rows: {
+          type: 'integer',
+          description: 'Queries only: maximum rows to return (default: the original limit)',
+        },
+        binds: {
+          ...bindsProperty(true),
+          description:
+            'Bind variables replacing the original ones, in the same form as the original tool call (default: the original binds)',
+        },
+        format: {
           type: 'string',
-          description: 'SQL query to explain',
+          enum: ['markdown', 'json'],
+          description: 'Output format (default: markdown)',
+        },
+        confirmation_token: confirmationTokenProperty,
+        timeout_seconds: {
+          type: 'number',
+          description:
+            'Statement timeout in seconds for this call (default: connection or server query timeout, 0 disables)',
         },
       },
-      required: ['connection', 'sql'],
+      required: ['id'],
     },
   },
   {
-    name: 'commit',
-    description: 'Commit the current transaction on a connection.',
+    name: 'get_audit_log',
+    description:
+      'Search the audit log of statements run through this server, newest first. Every filter is optional.',
     inputSchema: {
       type: 'object',
       properties: {
         connection: {
           type: 'string',
-          description: 'Name of the database connection',
+          description: 'Only entries for this connection',
+        },
+        tool: {
+          type: 'string',
+          description: 'Only entries from this tool, e.g. execute_dml',
+        },
+        text: {
+          type: 'string',
+          description: 'Case-insensitive text the SQL must contain',
+        },
+        query_type: {
+          type: 'string',
+          enum: Object.values(QueryType),
+          description: 'Only entries of this statement type',
+        },
+        status: {
+          type: 'string',
+          enum: ['success', 'failure'],
+          description: 'Only successful or only failed statements',
+        },
+        since: {
+          type: 'string',
+          description: 'ISO 8601 timestamp: only entries at or after this time',
+        },
+        until: {
+          type: 'string',
+          description: 'ISO 8601 timestamp: only entries at or before this time',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum entries to return (default: 50)',
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'json'],
+          description: 'Output format (default: markdown)',
         },
       },
-      required: ['connection'],
     },
   },
-  {
-    name: 'rollback',
-    description: 'Rollback the current transaction on a connection.',
+];
+
+// Tools generated from the savedQueries config section
+function savedQueryTools(queries: SavedQuery[]): Tool[] {
+  if (queries.length === 0) {
+    return [];
+  }
+
+  const tools: Tool[] = queries.map(query => {
+    const properties: Record<string, object> = {};
+    for (const param of query.parameters) {
+      const isDate = param.type === 'date' || param.type === 'timestamp';
+      properties[param.name] = {
+        type:
+          param.type === 'integer' ? 'integer' : param.type === 'number' ? ['number', 'string'] : 'string',
+        description:
+          (param.description || param.name) + (isDate ? ` (ISO 8601 ${param.type})` : ''),
+        ...(param.allowedValues ? { enum: param.allowedValues } : {}),
+        ...(param.default !== undefined ? { default: param.default } : {}),
+      };
+    }
+    if (query.connections.length > 1) {
+      properties.connection = {
+        type: 'string',
+        enum: query.connections,
+        description: `Connection to run on (default: ${query.connections[0]})`,
+      };
+    }
+    if (detectQueryType(query.sql) === QueryType.SELECT) {
+      properties.max_rows = {
+        type: 'integer',
+        description: `Maximum number of rows to return (default: ${query.maxRows ?? 100})`,
+      };
+      properties.format = {
+        type: 'string',
+        enum: ['markdown', 'json'],
+        description: 'Output format (default: markdown)',
+      };
+    }
+    properties.confirmation_token = confirmationTokenProperty;
+
+    return {
+      name: savedQueryToolName(query),
+      description: query.description,
+      inputSchema: {
+        type: 'object',
+        properties,
+        required: query.parameters.filter(p => p.required).map(p => p.name),
+      },
+    };
+  });
+
+  tools.push({
+    name: 'run_saved_query',
+    description:
+      'Run a saved query by name. Available: ' +
+      queries.map(query => `${query.name} (${query.description})`).join('; '),
     inputSchema: {
       type: 'object',
       properties: {
+        name: {
+          type: 'string',
+          enum: queries.map(query => query.name),
+          description: 'Saved query to run',
+        },
+        params: {
+          type: 'object',
+          description: 'Parameter values keyed by parameter name',
+        },
         connection: {
           type: 'string',
-          description: 'Name of the database connection',
+          description: "Connection to run on (default: the saved query's first connection)",
+        },
+        max_rows: {
+          type: 'integer',
+          description: 'SELECT only: maximum number of rows to return',
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'json'],
+          description: 'Output format (default: markdown)',
         },
+        confirmation_token: confirmationTokenProperty,
       },
-      required: ['connection'],
+      required: ['name'],
     },
-  },
-];
+  });
+
+  return tools;
+}
 
 // ============================================================================
 // Tool Execution
@@ -415,7 +1163,8 @@ const TOOLS: Tool[] = [
 
 async function executeTool(
   name: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  signal?: AbortSignal
 ): Promise<string> {
   if (!connectionManager || !queryExecutor || !schemaBrowser) {
     initializeFromConfig();
@@ -436,6 +1185,7 @@ async function executeTool(
         `- **Database:** ${result.database || 'N/A'}\n` +
         `- **Schema:** ${result.schema || 'N/A'}\n` +
         `- **Mode:** ${result.mode || 'N/A'}\n` +
+        (result.readOnlyVerified ? '- **Read-only:** ✅ verified (write attempt rejected)\n' : '') +
         `- **Version:** ${result.version || 'N/A'}`
       );
     } else {
@@ -452,6 +1202,7 @@ async function executeTool(
 
   if (name === 'disconnect') {
     const connName = args.name as string;
+    await queryExecutor!.closeCursors(connName);
     if (await connectionManager!.disconnect(connName)) {
       return `✅ Disconnected from '${connName}'`;
     } else {
@@ -465,8 +1216,35 @@ async function executeTool(
     const sql = args.sql as string;
     const maxRows = (args.max_rows as number) || 100;
     const outputFormat = (args.format as string) || 'markdown';
+    const timeoutSeconds = args.timeout_seconds as number | undefined;
+
+    const binds = args.binds as BindValues | undefined;
+
+    const result = await queryExecutor!.executeQuery(connName, sql, maxRows, binds, {
+      timeoutSeconds,
+      signal,
+      lob: lobOverrides(args),
+      numbersAsStrings: args.numbers_as_strings as boolean | undefined,
+      confirmationToken: args.confirmation_token as string | undefined,
+    });
+
+    if (outputFormat === 'json') {
+      return formatQueryResultJson(result);
+    }
+    return formatQueryResultMarkdown(result);
+  }
+
+  if (name === 'fetch_more') {
+    const token = args.token as string;
+    const maxRows = (args.max_rows as number) || 100;
+    const outputFormat = (args.format as string) || 'markdown';
+    const timeoutSeconds = args.timeout_seconds as number | undefined;
 
-    const result = await queryExecutor!.executeQuery(connName, sql, maxRows);
+    const result = await queryExecutor!.fetchMore(token, maxRows, {
+      timeoutSeconds,
+      signal,
+      lob: lobOverrides(args),
+    });
 
     if (outputFormat === 'json') {
       return formatQueryResultJson(result);
@@ -474,31 +1252,196 @@ async function executeTool(
     return formatQueryResultMarkdown(result);
   }
 
+  if (name === 'read_lob') {
+    const connName = args.connection as string;
+
+    const chunk = await queryExecutor!.readLob(
+      connName,
+      {
+        table: args.table as string,
+        schema: args.schema as string | undefined,
+        column: args.column as string,
+        rowid: args.rowid as string,
+        offset: args.offset as number | undefined,
+        length: args.length as number | undefined,
+        encoding: args.encoding as 'hex' | 'base64' | undefined,
+      },
+      { signal }
+    );
+    return formatLobChunk(chunk);
+  }
+
+  if (name === 'export_query') {
+    const connName = args.connection as string;
+    const sql = args.sql as string;
+    const binds = args.binds as BindValues | undefined;
+    const timeoutSeconds = args.timeout_seconds as number | undefined;
+
+    const result = await queryExecutor!.exportQuery(
+      connName,
+      sql,
+      {
+        format: args.format as ExportFormat,
+        file: args.file as string,
+        overwrite: args.overwrite === true,
+        delimiter: args.delimiter as string | undefined,
+        quoteAll: args.quote_all === true,
+        header: args.header !== false,
+        tableName: args.table_name as string | undefined,
+      },
+      binds,
+      {
+        timeoutSeconds,
+        signal,
+        numbersAsStrings: args.numbers_as_strings as boolean | undefined,
+        confirmationToken: args.confirmation_token as string | undefined,
+      }
+    );
+    return formatExportResult(result);
+  }
+
+  if (name === 'compare_query') {
+    const result = await queryExecutor!.compareQuery(
+      args.connection_a as string,
+      args.connection_b as string,
+      args.sql as string,
+      {
+        keyColumns: args.key_columns as string[] | undefined,
+        maxRows: args.max_rows as number | undefined,
+        maxDifferences: args.max_differences as number | undefined,
+      },
+      args.binds as BindValues | undefined,
+      {
+        timeoutSeconds: args.timeout_seconds as number | undefined,
+        signal,
+        numbersAsStrings: args.numbers_as_strings as boolean | undefined,
+        confirmationToken: args.confirmation_token as string | undefined,
+      }
+    );
+
+    if (args.format === 'json') {
+      return formatComparisonJson(result);
+    }
+    return formatComparisonMarkdown(result);
+  }
+
   if (name === 'execute_dml') {
     const connName = args.connection as string;
     const sql = args.sql as string;
     const commit = args.commit !== false;
+    const timeoutSeconds = args.timeout_seconds as number | undefined;
+
+    const binds = args.binds as BindValues | undefined;
+
+    if (args.dry_run === true) {
+      const sampleRows = (args.sample_rows as number) || 10;
+      const result = await queryExecutor!.previewDml(connName, sql, binds, sampleRows, {
+        timeoutSeconds,
+        signal,
+      });
+      return formatQueryResultMarkdown(result);
+    }
+
+    const result = await queryExecutor!.executeDml(connName, sql, binds, commit, {
+      timeoutSeconds,
+      signal,
+      confirmationToken: args.confirmation_token as string | undefined,
+    });
+    return formatQueryResultMarkdown(result);
+  }
 
-    const result = await queryExecutor!.executeDml(connName, sql, undefined, commit);
+  if (name === 'execute_batch') {
+    const result = await queryExecutor!.executeBatch(
+      args.connection as string,
+      args.sql as string,
+      (args.rows as BindValues[]) || [],
+      args.bind_types as BatchBindTypes | undefined,
+      args.commit !== false,
+      args.atomic !== false,
+      {
+        timeoutSeconds: args.timeout_seconds as number | undefined,
+        signal,
+        confirmationToken: args.confirmation_token as string | undefined,
+      }
+    );
     return formatQueryResultMarkdown(result);
   }
 
+  if (name === 'import_csv') {
+    const connName = args.connection as string;
+    const table = args.table as string;
+    const schema = args.schema as string | undefined;
+    const tableInfo = await schemaBrowser!.describeTable(connName, table, schema, false, false);
+
+    const result = await queryExecutor!.importCsv(
+      connName,
+      tableInfo,
+      {
+        file: args.file as string,
+        table,
+        schema,
+        delimiter: args.delimiter as string | undefined,
+        header: args.header !== false,
+        columns: args.columns as string[] | undefined,
+        columnMap: args.column_map as Record<string, string> | undefined,
+        dateFormat: args.date_format as string | undefined,
+        timestampFormat: args.timestamp_format as string | undefined,
+        batchSize: args.batch_size as number | undefined,
+        rejectFile: args.reject_file as string | undefined,
+        dryRun: args.dry_run === true,
+        commit: args.commit !== false,
+      },
+      {
+        timeoutSeconds: args.timeout_seconds as number | undefined,
+        signal,
+        confirmationToken: args.confirmation_token as string | undefined,
+      }
+    );
+    return formatImportResult(result);
+  }
+
   if (name === 'execute_plsql') {
     const connName = args.connection as string;
     const plsql = args.plsql as string;
     const commit = args.commit !== false;
+    const timeoutSeconds = args.timeout_seconds as number | undefined;
+
+    const binds = args.binds as BindValues | undefined;
 
-    const result = await queryExecutor!.executePlsql(connName, plsql, undefined, commit);
+    const result = await queryExecutor!.executePlsql(connName, plsql, binds, commit, {
+      timeoutSeconds,
+      signal,
+      confirmationToken: args.confirmation_token as string | undefined,
+      captureOutput: args.capture_output === true,
+      maxOutputLines: args.max_output_lines as number | undefined,
+    });
     return formatQueryResultMarkdown(result);
   }
 
   if (name === 'execute_procedure') {
     const connName = args.connection as string;
     const procedure = args.procedure as string;
-    const params = args.params as Record<string, unknown> | undefined;
-    const outParamsSpec = args.out_params as Record<string, 'string' | 'int' | 'float'> | undefined;
+    // Parameters of remote procedures cannot be read from the local dictionary
+    const signature = procedure.includes('@')
+      ? []
+      : await schemaBrowser!.getProcedureParams(connName, procedure);
 
-    const result = await queryExecutor!.executeProcedure(connName, procedure, params, outParamsSpec);
+    const result = await queryExecutor!.executeProcedure(
+      connName,
+      procedure,
+      signature,
+      {
+        params: args.params as Record<string, unknown> | undefined,
+        outParams: args.out_params as Record<string, ProcedureOutType> | undefined,
+        overload: args.overload as number | undefined,
+        maxRows: args.max_rows as number | undefined,
+      },
+      {
+        signal,
+        captureOutput: args.capture_output === true,
+        maxOutputLines: args.max_output_lines as number | undefined,
+      }
+    );
     return formatQueryResultMarkdown(result);
   }
 
@@ -590,6 +1533,122 @@ async function executeTool(
     return formatQueryResultMarkdown(result);
   }
 
+  if (name === 'begin_transaction') {
+    const result = await queryExecutor!.beginTransaction(args.connection as string);
+    return formatQueryResultMarkdown(result);
+  }
+
+  if (name === 'savepoint') {
+    const result = await queryExecutor!.setSavepoint(
+      args.connection as string,
+      args.name as string
+    );
+    return formatQueryResultMarkdown(result);
+  }
+
+  if (name === 'rollback_to_savepoint') {
+    const result = await queryExecutor!.rollbackToSavepoint(
+      args.connection as string,
+      args.name as string
+    );
+    return formatQueryResultMarkdown(result);
+  }
+
+  if (name === 'transaction_status') {
+    const status = await queryExecutor!.transactionStatus(args.connection as string);
+    if (args.format === 'json') {
+      return JSON.stringify(status, null, 2);
+    }
+    return formatTransactionStatus(status);
+  }
+
+  // History tools
+  if (name === 'query_history') {
+    const { entries, total } = queryExecutor!.searchHistory({
+      connection: args.connection as string | undefined,
+      text: args.text as string | undefined,
+      status: args.status as 'success' | 'failure' | undefined,
+      since: args.since as string | undefined,
+      until: args.until as string | undefined,
+      limit: args.limit as number | undefined,
+    });
+
+    if (args.format === 'json') {
+      return JSON.stringify({ total, entries }, null, 2);
+    }
+    return formatQueryHistory(entries, total);
+  }
+
+  if (name === 'rerun_query') {
+    const result = await queryExecutor!.rerunQuery(
+      args.id as number,
+      {
+        maxRows: args.max_rows as number | undefined,
+        binds: args.binds as BindValues | undefined,
+      },
+      {
+        timeoutSeconds: args.timeout_seconds as number | undefined,
+        signal,
+        confirmationToken: args.confirmation_token as string | undefined,
+      }
+    );
+
+    if (args.format === 'json') {
+      return formatQueryResultJson(result);
+    }
+    return formatQueryResultMarkdown(result);
+  }
+
+  // Saved queries
+  if (name === 'run_saved_query' || name.startsWith(SAVED_QUERY_TOOL_PREFIX)) {
+    const queries = connectionManager!.getServerConfig().savedQueries;
+    const generic = name === 'run_saved_query';
+    const query = generic
+      ? queries.find(q => q.name === args.name)
+      : queries.find(q => savedQueryToolName(q) === name);
+    if (!query) {
+      throw new Error(
+        generic ? `Saved query '${String(args.name)}' not found` : `Unknown tool: ${name}`
+      );
+    }
+
+    // Per-query tools take parameters at the top level next to the options
+    const { connection, max_rows, format, confirmation_token, ...rest } = args;
+    const values = generic ? ((args.params as Record<string, unknown> | undefined) ?? {}) : rest;
+
+    const result = await queryExecutor!.executeSavedQuery(
+      query,
+      values,
+      connection as string | undefined,
+      max_rows as number | undefined,
+      { signal, confirmationToken: confirmation_token as string | undefined }
+    );
+
+    if (format === 'json') {
+      return formatQueryResultJson(result);
+    }
+    return formatQueryResultMarkdown(result);
+  }
+
+  // Audit tools
+  if (name === 'get_audit_log') {
+    const { entries, total, path } = queryExecutor!.searchAuditLog({
+      connection: args.connection as string | undefined,
+      tool: args.tool as string | undefined,
+      text: args.text as string | undefined,
+      queryType: args.query_type as QueryType | undefined,
+      status: args.status as 'success' | 'failure' | undefined,
+      since: args.since as string | undefined,
+      until: args.until as string | undefined,
+      limit: args.limit as number | undefined,
+    });
+
+    if (args.format === 'json') {
+      return JSON.stringify({ total, entries }, null, 2);
+    }
+    return formatAuditLog(entries, total, path);
+  }
+
   throw new Error(`Unknown tool: ${name}`);
 }
 
@@ -613,15 +1672,20 @@ async function main(): Promise<void> {
 
   // List available tools
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools: TOOLS };
+    if (!connectionManager) {
+      initializeFromConfig();
+    }
+    return {
+      tools: [...TOOLS, ...savedQueryTools(connectionManager!.getServerConfig().savedQueries)],
+    };
   });
 
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async request => {
+  // Handle tool calls; extra.signal is aborted when the client cancels the request
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
     try {
-      const result = await executeTool(name, (args || {}) as Record<string, unknown>);
+      const result = await executeTool(name, (args || {}) as Record<string, unknown>, extra.signal);
       return {
         content: [{ type: 'text', text: result }],
       };
@@ -668,6 +1732,12 @@ async function main(): Promise<void> {
           description: 'Get schema information for a specific table',
           mimeType: 'application/json',
         },
+        {
+          uriTemplate: 'oracle://history/{connection}',
+          name: 'Query History',
+          description: 'Recent statements run on a connection, newest first',
+          mimeType: 'application/json',
+        },
       ],
     };
   });
@@ -676,7 +1746,7 @@ async function main(): Promise<void> {
   server.setRequestHandler(ReadResourceRequestSchema, async request => {
     const { uri } = request.params;
 
-    if (!connectionManager || !schemaBrowser) {
+    if (!connectionManager || !queryExecutor || !schemaBrowser) {
       initializeFromConfig();
     }
 
@@ -712,6 +1782,25 @@ async function main(): Promise<void> {
       }
     }
 
+    if (uri.startsWith('oracle://history/')) {
+      const connName = uri.replace('oracle://history/', '');
+      // Fails for unknown connections rather than returning an empty history
+      connectionManager!.getConnectionConfig(connName);
+      const history = queryExecutor!.searchHistory({
+        connection: connName,
+        limit: connectionManager!.getServerConfig().history.maxEntries,
+      });
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(history, null, 2),
+          },
+        ],
+      };
+    }
+
     return {
       contents: [
         {
@@ -734,6 +1823,9 @@ async function main(): Promise<void> {
   // Handle shutdown
   process.on('SIGINT', async () => {
     console.error('Shutting down...');
+    if (queryExecutor) {
+      await queryExecutor.closeCursors();
+    }
     if (connectionManager) {
       await connectionManager.disconnectAll();
     }
@@ -742,6 +1834,9 @@ async function main(): Promise<void> {
 
   process.on('SIGTERM', async () => {
     console.error('Shutting down...');
+    if (queryExecutor) {
+      await queryExecutor.closeCursors();
+    }
     if (connectionManager) {
       await connectionManager.disconnectAll();
     }
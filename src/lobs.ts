@@ -0,0 +1,93 @@
+/**
+ * LOB Handling for Oracle MCP Server
+ *
+ * Reads CLOB, NCLOB and BLOB locators returned by queries and OUT binds
+ * into bounded strings so they can be shown in tool results.
+ */
+
+import oracledb from 'oracledb';
+import { LobOptions } from './types.js';
+
+export function isLob(value: unknown): value is oracledb.Lob {
+  return typeof value === 'object' && value !== null && 'getData' in value;
+}
+
+export function lobTypeName(lob: oracledb.Lob): string {
+  switch (lob.type) {
+    case oracledb.DB_TYPE_CLOB:
+      return 'CLOB';
+    case oracledb.DB_TYPE_NCLOB:
+      return 'NCLOB';
+    case oracledb.DB_TYPE_BLOB:
+      return 'BLOB';
+    default:
+      return 'BFILE';
+  }
+}
+
+function isCharacterLob(lob: oracledb.Lob): boolean {
+  return lob.type === oracledb.DB_TYPE_CLOB || lob.type === oracledb.DB_TYPE_NCLOB;
+}
+
+export function encodeBinary(data: Buffer, encoding: 'hex' | 'base64'): string {
+  return encoding === 'hex' ? data.toString('hex').toUpperCase() : data.toString('base64');
+}
+
+function previewBinary(data: Buffer, totalBytes: number, label: string, options: LobOptions): string {
+  if (options.blobPreview === 'none') {
+    return `<${label}: ${totalBytes} bytes>`;
+  }
+
+  const preview = encodeBinary(data, options.blobPreview);
+  if (totalBytes > data.length) {
+    return `${preview}… [${label} ${options.blobPreview} preview: ${data.length} of ${totalBytes} bytes]`;
+  }
+  return preview;
+}
+
+/**
+ * Read a LOB into a displayable string. Character LOBs are cut at maxChars
+ * with a truncation marker; binary LOBs become a size or a preview.
+ */
+async function readLobValue(lob: oracledb.Lob, options: LobOptions): Promise<string> {
+  try {
+    const label = lobTypeName(lob);
+
+    if (isCharacterLob(lob)) {
+      const total = lob.length;
+      if (total === 0) {
+        return '';
+      }
+      const amount = options.maxChars > 0 ? Math.min(total, options.maxChars) : total;
+      const text = ((await lob.getData(1, amount)) as string | null) || '';
+      if (amount < total) {
+        return `${text}… [truncated: ${amount} of ${total} characters, use read_lob for the full ${label}]`;
+      }
+      return text;
+    }
+
+    const total = lob.length;
+    if (options.blobPreview === 'none' || total === 0) {
+      return `<${label}: ${total} bytes>`;
+    }
+    const data = (await lob.getData(1, Math.min(total, options.blobPreviewBytes))) as Buffer | null;
+    return previewBinary(data || Buffer.alloc(0), total, label, options);
+  } finally {
+    lob.destroy();
+  }
+}
+
+/**
+ * Replace LOB locators (and RAW buffers when previews are enabled) with
+ * strings. Must run while the session that fetched the LOBs is still held.
+ */
+export async function materializeValue(value: unknown, options: LobOptions): Promise<unknown> {
+  if (isLob(value)) {
+    return readLobValue(value, options);
+  }
+  if (Buffer.isBuffer(value) && options.blobPreview !== 'none') {
+    const data = value.subarray(0, options.blobPreviewBytes);
+    return previewBinary(data, value.length, 'RAW', options);
+  }
+  return value;
+}
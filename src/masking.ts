@@ -0,0 +1,376 @@
+/**
+ * Data Masking for Oracle MCP Server
+ *
+ * Masks personal data in results before they reach the client. Rules match
+ * by connection, schema, table and column name, or by a regular expression
+ * on the values themselves; matched values are redacted, partially masked
+ * or replaced by a salted hash that stays the same across queries.
+ */
+
+import { createHash } from 'crypto';
+import { matchesPattern, qualifyTable } from './safety-policy.js';
+import {
+  NameReferences,
+  SelectItem,
+  nameReferences,
+  referencedTables,
+  selectListItems,
+} from './sql-lexer.js';
+import { MaskingOptions, MaskingRule, MaskStrategy } from './types.js';
+
+const STRATEGIES: MaskStrategy[] = ['redact', 'partial', 'hash'];
+
+const REDACTED = '[REDACTED]';
+
+// Hex digits of the SHA-256 hash kept in hashed values
+const HASH_LENGTH = 16;
+
+const DEFAULT_KEEP_START = 0;
+const DEFAULT_KEEP_END = 4;
+
+export const DEFAULT_MASKING_OPTIONS: MaskingOptions = {
+  rules: [],
+  salt: '',
+};
+
+interface CompiledRule extends MaskingRule {
+  valueRegex?: RegExp;
+}
+
+// Applied to result columns that may hold a masked column's values but
+// cannot be traced to their source
+const UNTRACEABLE: CompiledRule = { strategy: 'redact' };
+
+// Masks the rows of one result set
+export interface RowMasker {
+  // Strategy of each column masked as a whole, in column order
+  columns: (MaskStrategy | undefined)[];
+  maskRows(rows: unknown[][]): unknown[][];
+}
+
+// ============================================================================
+// Configuration Parsing
+// ============================================================================
+
+function parseRule(raw: Record<string, unknown>, index: number): MaskingRule {
+  const strategy = ((raw.strategy as string) || 'redact').toLowerCase() as MaskStrategy;
+  if (!STRATEGIES.includes(strategy)) {
+    throw new Error(
+      `Masking rule ${index + 1}: unknown strategy '${strategy}' (expected one of: ${STRATEGIES.join(', ')})`
+    );
+  }
+
+  const rule: MaskingRule = { strategy };
+  for (const key of ['connection', 'schema', 'table', 'column'] as const) {
+    if (typeof raw[key] === 'string') {
+      rule[key] = raw[key] as string;
+    }
+  }
+
+  const valuePattern = (raw.value_pattern ?? raw.valuePattern) as string | undefined;
+  if (valuePattern !== undefined) {
+    try {
+      new RegExp(valuePattern);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      throw new Error(`Masking rule ${index + 1}: invalid valuePattern: ${error}`);
+    }
+    rule.valuePattern = valuePattern;
+  }
+  if (!rule.column && !rule.valuePattern) {
+    throw new Error(`Masking rule ${index + 1} needs a column or a valuePattern`);
+  }
+
+  const keepStart = raw.keep_start ?? raw.keepStart;
+  if (typeof keepStart === 'number') {
+    rule.keepStart = keepStart;
+  }
+  const keepEnd = raw.keep_end ?? raw.keepEnd;
+  if (typeof keepEnd === 'number') {
+    rule.keepEnd = keepEnd;
+  }
+  return rule;
+}
+
+export function parseMaskingOptions(raw: Record<string, unknown>): MaskingOptions {
+  const rules = ((raw.rules || []) as Record<string, unknown>[]).map(parseRule);
+
+  const saltEnv = (raw.salt_env ?? raw.saltEnv) as string | undefined;
+  const salt =
+    (saltEnv ? process.env[saltEnv] : (raw.salt as string | undefined)) ??
+    process.env.MASKING_SALT ??
+    '';
+  if (!salt && rules.some(rule => rule.strategy === 'hash')) {
+    console.error(
+      'Warning: masking rules use hash without settings.masking.salt; hashed values can be guessed'
+    );
+  }
+  return { rules, salt };
+}
+
+// ============================================================================
+// Masking Strategies
+// ============================================================================
+
+function maskText(text: string, rule: MaskingRule, salt: string): string {
+  switch (rule.strategy) {
+    case 'hash':
+      return createHash('sha256')
+        .update(salt)
+        .update(text)
+        .digest('hex')
+        .substring(0, HASH_LENGTH);
+    case 'partial': {
+      const keepStart = rule.keepStart ?? DEFAULT_KEEP_START;
+      const keepEnd = rule.keepEnd ?? DEFAULT_KEEP_END;
+      // Values too short to hide anything are masked completely
+      if (text.length <= keepStart + keepEnd) {
+        return '*'.repeat(text.length);
+      }
+      return (
+        text.substring(0, keepStart) +
+        '*'.repeat(text.length - keepStart - keepEnd) +
+        text.substring(text.length - keepEnd)
+      );
+    }
+    default:
+      return REDACTED;
+  }
+}
+
+function textOf(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// ============================================================================
+// Data Masker
+// ============================================================================
+
+export class DataMasker {
+  private rules: CompiledRule[];
+  private salt: string;
+
+  constructor(options: MaskingOptions) {
+    this.rules = options.rules.map(rule => ({
+      ...rule,
+      valueRegex: rule.valuePattern ? new RegExp(rule.valuePattern, 'g') : undefined,
+    }));
+    this.salt = options.salt;
+  }
+
+  get enabled(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Build the masker for a result set. The query's tables decide which
+   * table and schema rules apply, and its select list which source column
+   * each result column shows; without SQL (REF CURSORs, implicit results)
+   * the tables are unknown and rules match on column names alone.
+   */
+  forResult(
+    connectionName: string,
+    defaultSchema: string,
+    columnNames: string[],
+    sql?: string
+  ): RowMasker | undefined {
+    const references = sql ? nameReferences(sql) : undefined;
+    // Tables read by SQL in string literals are not known
+    const tables =
+      sql && !references!.dynamicSql
+        ? referencedTables(sql).map(table => qualifyTable(table, defaultSchema))
+        : undefined;
+    const rules = this.rules.filter(
+      rule => this.matchesConnection(rule, connectionName) && this.matchesTables(rule, tables)
+    );
+    if (rules.length === 0) {
+      return undefined;
+    }
+
+    const columnRules = columnNames.map(name =>
+      rules.find(rule => !rule.valueRegex && rule.column && matchesPattern(name, rule.column))
+    );
+    if (sql) {
+      const traced = this.traceColumns(rules, sql, references!, columnNames.length);
+      traced.forEach((rule, i) => {
+        columnRules[i] = columnRules[i] ?? rule;
+      });
+    }
+    const valueRules = columnNames.map(name =>
+      rules.filter(rule => rule.valueRegex && (!rule.column || matchesPattern(name, rule.column)))
+    );
+    if (columnRules.every(rule => !rule) && valueRules.every(list => list.length === 0)) {
+      return undefined;
+    }
+
+    return {
+      columns: columnRules.map(rule => rule?.strategy),
+      maskRows: rows =>
+        rows.map(row =>
+          row.map((value, i) => this.maskValue(value, columnRules[i], valueRules[i] || []))
+        ),
+    };
+  }
+
+  /**
+   * Mask named values such as OUT parameters, treating each name as a
+   * column of an unknown table.
+   */
+  maskRecord(
+    connectionName: string,
+    defaultSchema: string,
+    values: Record<string, unknown>
+  ): Record<string, unknown> {
+    const names = Object.keys(values);
+    const masker = this.forResult(connectionName, defaultSchema, names);
+    if (!masker) {
+      return values;
+    }
+    const [masked] = masker.maskRows([names.map(name => values[name])]);
+    return Object.fromEntries(names.map((name, i) => [name, masked[i]]));
+  }
+
+  /**
+   * Apply the value patterns that hold for every column to free text, e.g.
+   * DBMS_OUTPUT lines.
+   */
+  maskFreeText(connectionName: string, lines: string[]): string[] {
+    const rules = this.rules.filter(
+      rule =>
+        rule.valueRegex &&
+        !rule.column &&
+        !rule.schema &&
+        !rule.table &&
+        this.matchesConnection(rule, connectionName)
+    );
+    if (rules.length === 0) {
+      return lines;
+    }
+    return lines.map(line => this.maskValue(line, undefined, rules) as string);
+  }
+
+  /**
+   * Strategy applied to each column of a table, for describe_table. Value
+   * patterns are not listed since they depend on the data.
+   */
+  tableColumns(
+    connectionName: string,
+    schema: string,
+    table: string,
+    columnNames: string[]
+  ): (MaskStrategy | undefined)[] {
+    const tables = [{ schema: schema.toUpperCase(), name: table.toUpperCase() }];
+    const rules = this.rules.filter(
+      rule =>
+        !rule.valueRegex &&
+        this.matchesConnection(rule, connectionName) &&
+        this.matchesTables(rule, tables)
+    );
+    return columnNames.map(
+      name => rules.find(rule => rule.column && matchesPattern(name, rule.column))?.strategy
+    );
+  }
+
+  /**
+   * Rules for result columns computed from masked columns, so that aliases
+   * and expressions such as LOWER(email) stay masked. Once a query names a
+   * masked column or reads columns through a wildcard, result columns that
+   * cannot be traced through the select list are redacted.
+   */
+  private traceColumns(
+    rules: CompiledRule[],
+    sql: string,
+    references: NameReferences,
+    columnCount: number
+  ): (CompiledRule | undefined)[] {
+    const columnRules = rules.filter(rule => !rule.valueRegex && rule.column);
+    const ruleFor = (names: string[]): CompiledRule | undefined =>
+      columnRules.find(rule => names.some(name => matchesPattern(name, rule.column!)));
+    if (!references.wildcard && !ruleFor(references.names)) {
+      return [];
+    }
+
+    const untraceable = new Array<CompiledRule | undefined>(columnCount).fill(UNTRACEABLE);
+    const items = selectListItems(sql);
+    if (!items || references.dynamicSql) {
+      return untraceable;
+    }
+    const itemRule = (item: SelectItem): CompiledRule | undefined => {
+      if (item.column) {
+        return ruleFor([item.column]);
+      }
+      return item.wildcard ? UNTRACEABLE : ruleFor(item.names);
+    };
+
+    // "*" items expand to the table's columns under their own names, which
+    // the column rules match; the items around them are aligned by position
+    const firstStar = items.findIndex(item => item.star);
+    if (firstStar === -1) {
+      return items.length === columnCount ? items.map(itemRule) : untraceable;
+    }
+    const lastStar = items.length - 1 - [...items].reverse().findIndex(item => item.star);
+    const leading = items.slice(0, firstStar);
+    const trailing = items.slice(lastStar + 1);
+    if (leading.length + trailing.length > columnCount) {
+      return untraceable;
+    }
+    const starsOnly = items.slice(firstStar, lastStar + 1).every(item => item.star);
+    const middle = columnCount - leading.length - trailing.length;
+    return [
+      ...leading.map(itemRule),
+      ...new Array<CompiledRule | undefined>(middle).fill(starsOnly ? undefined : UNTRACEABLE),
+      ...trailing.map(itemRule),
+    ];
+  }
+
+  private maskValue(
+    value: unknown,
+    columnRule: CompiledRule | undefined,
+    valueRules: CompiledRule[]
+  ): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    if (columnRule) {
+      return maskText(textOf(value), columnRule, this.salt);
+    }
+
+    let text = textOf(value);
+    let changed = false;
+    for (const rule of valueRules) {
+      text = text.replace(rule.valueRegex!, match => {
+        changed = true;
+        return maskText(match, rule, this.salt);
+      });
+    }
+    return changed ? text : value;
+  }
+
+  private matchesConnection(rule: MaskingRule, connectionName: string): boolean {
+    return !rule.connection || matchesPattern(connectionName, rule.connection);
+  }
+
+  // Rules without a schema or table apply to every query
+  private matchesTables(
+    rule: MaskingRule,
+    tables: { schema: string; name: string }[] | undefined
+  ): boolean {
+    if (!rule.schema && !rule.table) {
+      return true;
+    }
+    if (!tables) {
+      return true;
+    }
+    return tables.some(({ schema, name }) => {
+      if (rule.schema && !matchesPattern(schema, rule.schema)) {
+        return false;
+      }
+      if (!rule.table) {
+        return true;
+      }
+      return rule.table.includes('.')
+        ? matchesPattern(`${schema}.${name}`, rule.table)
+        : matchesPattern(name, rule.table);
+    });
+  }
+}
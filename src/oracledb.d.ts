@@ -7,32 +7,114 @@
 
 declare module 'oracledb' {
   export interface Connection {
+    callTimeout: number;
     ping(): Promise<void>;
+    break(): Promise<void>;
     execute<T = unknown[]>(
       sql: string,
-      bindParams?: Record<string, unknown> | unknown[],
+      bindParams?: Record<string, unknown> | unknown[] | BindParameter[],
       options?: ExecuteOptions
     ): Promise<Result<T>>;
+    executeMany(
+      sql: string,
+      binds: Record<string, unknown>[] | unknown[][],
+      options?: ExecuteManyOptions
+    ): Promise<Results>;
     commit(): Promise<void>;
     rollback(): Promise<void>;
-    close(): Promise<void>;
+    close(options?: CloseOptions): Promise<void>;
+  }
+
+  export interface CloseOptions {
+    drop?: boolean;
+  }
+
+  export interface Pool {
+    readonly connectionsOpen: number;
+    readonly connectionsInUse: number;
+    readonly poolMin: number;
+    readonly poolMax: number;
+    readonly status: number;
+    getConnection(): Promise<Connection>;
+    getStatistics(): PoolStatistics | null;
+    close(drainTime?: number): Promise<void>;
+  }
+
+  export interface PoolStatistics {
+    currentQueueLength: number;
+    connectionsInUse: number;
+    connectionsOpen: number;
   }
 
   export interface Result<T = unknown[]> {
     rows?: T[];
+    resultSet?: ResultSet<T>;
     rowsAffected?: number;
     metaData?: MetaData[];
-    outBinds?: Record<string, unknown>;
+    outBinds?: Record<string, unknown> | unknown[];
+    // Results returned by DBMS_SQL.RETURN_RESULT, as result sets when resultSet is set
+    implicitResults?: (ResultSet<T> | T[])[];
+  }
+
+  export interface Results {
+    rowsAffected?: number;
+    dmlRowCounts?: number[];
+    batchErrors?: BatchError[];
+  }
+
+  export interface BatchError extends Error {
+    errorNum: number;
+    // Index of the failed row in the binds array
+    offset: number;
+  }
+
+  export interface ResultSet<T = unknown[]> {
+    readonly metaData: MetaData[];
+    getRows(numRows: number): Promise<T[]>;
+    close(): Promise<void>;
+  }
+
+  export interface Lob {
+    readonly type: number;
+    // Characters for CLOB/NCLOB, bytes for BLOB
+    readonly length: number;
+    getData(offset?: number, amount?: number): Promise<string | Buffer | null>;
+    destroy(): void;
   }
 
   export interface MetaData {
     name: string;
+    dbType?: number;
+    dbTypeName?: string;
+    precision?: number;
+    scale?: number;
+    nullable?: boolean;
+    byteSize?: number;
+  }
+
+  export interface FetchTypeHandlerResult {
+    type?: number;
   }
 
   export interface ExecuteOptions {
     autoCommit?: boolean;
     maxRows?: number;
     outFormat?: number;
+    resultSet?: boolean;
+    fetchArraySize?: number;
+    fetchTypeHandler?: (metaData: MetaData) => FetchTypeHandlerResult | undefined;
+  }
+
+  export interface ExecuteManyOptions {
+    autoCommit?: boolean;
+    batchErrors?: boolean;
+    dmlRowCounts?: boolean;
+    bindDefs?: Record<string, BindDefinition> | BindDefinition[];
+  }
+
+  export interface BindDefinition {
+    type: number;
+    maxSize?: number;
   }
 
   export interface BindParameter {
@@ -40,6 +122,8 @@ declare module 'oracledb' {
     dir?: number;
     type?: number;
     maxSize?: number;
+    // Binds a PL/SQL index-by table of up to this many elements
+    maxArraySize?: number;
   }
 
   export interface InitOracleClientOptions {
@@ -52,9 +136,25 @@ declare module 'oracledb' {
     connectString: string;
   }
 
+  export interface PoolAttributes extends ConnectionOptions {
+    poolMin?: number;
+    poolMax?: number;
+    poolIncrement?: number;
+    poolTimeout?: number;
+    stmtCacheSize?: number;
+    enableStatistics?: boolean;
+    sessionCallback?: (
+      connection: Connection,
+      requestedTag: string,
+      callback: (error?: Error) => void
+    ) => void;
+  }
+
   export function getConnection(options: ConnectionOptions): Promise<Connection>;
+  export function createPool(attributes: PoolAttributes): Promise<Pool>;
   export function initOracleClient(options?: InitOracleClientOptions): void;
 
+  export const POOL_STATUS_OPEN: number;
   export const OUT_FORMAT_ARRAY: number;
   export const OUT_FORMAT_OBJECT: number;
   export const BIND_IN: number;
@@ -63,7 +163,14 @@ declare module 'oracledb' {
   export const STRING: number;
   export const NUMBER: number;
   export const DATE: number;
+  export const DB_TYPE_NUMBER: number;
+  export const DB_TYPE_DATE: number;
+  export const DB_TYPE_TIMESTAMP: number;
+  export const DB_TYPE_CLOB: number;
+  export const DB_TYPE_NCLOB: number;
+  export const DB_TYPE_BLOB: number;
   export const CURSOR: number;
+  export const DB_TYPE_BOOLEAN: number;
   export const BUFFER: number;
   export const CLOB: number;
   export const BLOB: number;
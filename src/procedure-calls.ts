@@ -0,0 +1,359 @@
+/**
+ * Procedure Calls for Oracle MCP Server
+ *
+ * Builds the PL/SQL block and binds for execute_procedure from the
+ * parameter metadata in ALL_ARGUMENTS, so directions and types do not have
+ * to be spelled out. Functions, package members and overloads are handled
+ * here; REF CURSOR results are read by the executor.
+ */
+
+import oracledb from 'oracledb';
+import { convertValue } from './binds.js';
+import { BindType, ProcedureOutType, ProcedureParam } from './types.js';
+
+// Name of a function's return value in the output parameters
+export const RETURN_PARAM = 'RETURN';
+
+const RETURN_BIND = 'mcp_return';
+
+// Largest VARCHAR2 a PL/SQL OUT bind can return
+const MAX_STRING_OUT = 32767;
+
+type ParamKind = BindType | 'boolean' | 'cursor';
+
+const NUMERIC_TYPES = [
+  'NUMBER',
+  'INTEGER',
+  'FLOAT',
+  'BINARY_INTEGER',
+  'PLS_INTEGER',
+  'BINARY_FLOAT',
+  'BINARY_DOUBLE',
+];
+
+export interface ProcedureCall {
+  sql: string;
+  binds: Record<string, oracledb.BindParameter>;
+  // Bind name -> output parameter name, for OUT and IN OUT parameters
+  outputs: Record<string, string>;
+  // Output parameters that return a REF CURSOR
+  cursors: string[];
+  isFunction: boolean;
+}
+
+// ============================================================================
+// Parameter Types
+// ============================================================================
+
+const NAME_PART = '("[^"]+"|[A-Za-z][A-Za-z0-9_$#]*)';
+
+/**
+ * The procedure name is spliced into the call, so it must be a plain
+ * [schema.][package.]name, optionally with a database link.
+ */
+export function checkProcedureName(name: string): void {
+  const pattern = new RegExp(`^${NAME_PART}(\\.${NAME_PART}){0,2}(@[A-Za-z][A-Za-z0-9_$#.]*)?$`);
+  if (!pattern.test(name)) {
+    throw new Error(`Invalid procedure name '${name}'`);
+  }
+}
+
+/**
+ * Parameter names are spliced into the call as "name => :name", so they
+ * must be plain identifiers.
+ */
+function checkParameterName(name: string): void {
+  if (!/^[A-Za-z][A-Za-z0-9_$#]*$/.test(name)) {
+    throw new Error(`Invalid parameter name '${name}'`);
+  }
+}
+
+function paramKind(param: ProcedureParam): ParamKind {
+  const type = param.dataType.toUpperCase();
+  if (NUMERIC_TYPES.includes(type)) {
+    return 'number';
+  }
+  if (['VARCHAR2', 'NVARCHAR2', 'CHAR', 'NCHAR', 'VARCHAR', 'LONG', 'ROWID'].includes(type)) {
+    return 'string';
+  }
+  if (type === 'DATE') {
+    return 'date';
+  }
+  if (type.startsWith('TIMESTAMP')) {
+    return 'timestamp';
+  }
+  if (type === 'CLOB' || type === 'NCLOB') {
+    return 'clob';
+  }
+  if (type === 'BLOB') {
+    return 'blob';
+  }
+  if (type === 'PL/SQL BOOLEAN' || type === 'BOOLEAN') {
+    return 'boolean';
+  }
+  if (type === 'REF CURSOR') {
+    return 'cursor';
+  }
+  throw new Error(`Parameter ${param.name} has type ${param.dataType}, which cannot be bound`);
+}
+
+function driverType(kind: ParamKind): number {
+  switch (kind) {
+    case 'number':
+      return oracledb.NUMBER;
+    case 'date':
+      return oracledb.DB_TYPE_DATE;
+    case 'timestamp':
+      return oracledb.DB_TYPE_TIMESTAMP;
+    case 'clob':
+      return oracledb.CLOB;
+    case 'blob':
+      return oracledb.BLOB;
+    case 'boolean':
+      return oracledb.DB_TYPE_BOOLEAN;
+    case 'cursor':
+      return oracledb.CURSOR;
+    default:
+      return oracledb.STRING;
+  }
+}
+
+function convertBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (value === 1 || value === 'true' || value === 'TRUE' || value === '1') {
+    return true;
+  }
+  if (value === 0 || value === 'false' || value === 'FALSE' || value === '0') {
+    return false;
+  }
+  throw new Error(`'${String(value)}' is not a boolean`);
+}
+
+function inBind(param: ProcedureParam, kind: ParamKind, value: unknown): oracledb.BindParameter {
+  if (kind === 'cursor') {
+    throw new Error(`Parameter ${param.name}: REF CURSOR values cannot be passed in`);
+  }
+  try {
+    if (value === null || value === undefined) {
+      return { val: null, type: driverType(kind) };
+    }
+    if (kind === 'boolean') {
+      return { val: convertBoolean(value), type: oracledb.DB_TYPE_BOOLEAN };
+    }
+    return convertValue(kind, value);
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    throw new Error(`Parameter ${param.name}: ${error}`);
+  }
+}
+
+// ============================================================================
+// Overloads
+// ============================================================================
+
+function groupOverloads(params: ProcedureParam[]): ProcedureParam[][] {
+  const groups = new Map<number, ProcedureParam[]>();
+  for (const param of params) {
+    const key = param.overload ?? 0;
+    groups.set(key, [...(groups.get(key) || []), param]);
+  }
+  return Array.from(groups.values());
+}
+
+function describeOverload(signature: ProcedureParam[]): string {
+  const args = signature
+    .filter(p => p.position > 0)
+    .map(p => `${p.name} ${p.direction} ${p.dataType}`)
+    .join(', ');
+  return `overload ${signature[0].overload ?? 1} (${args || 'no parameters'})`;
+}
+
+/**
+ * Pick the overload that accepts the given parameter names: every name must
+ * be one of its parameters and every IN parameter without a default must be
+ * given. An explicit overload number wins.
+ */
+export function selectOverload(
+  procedureName: string,
+  params: ProcedureParam[],
+  names: string[],
+  overload?: number
+): ProcedureParam[] {
+  const overloads = groupOverloads(params);
+  if (overload !== undefined) {
+    const chosen = overloads.find(o => (o[0].overload ?? 1) === overload);
+    if (!chosen) {
+      throw new Error(`${procedureName} has no overload ${overload}`);
+    }
+    return chosen;
+  }
+  if (overloads.length === 1) {
+    return overloads[0];
+  }
+
+  const given = names.map(name => name.toUpperCase());
+  const matches = overloads.filter(signature => {
+    const args = signature.filter(p => p.position > 0);
+    return (
+      given.every(name => args.some(p => p.name === name)) &&
+      args.every(p => p.direction === 'OUT' || p.hasDefault || given.includes(p.name))
+    );
+  });
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  const list = overloads.map(describeOverload).join('; ');
+  throw new Error(
+    matches.length === 0
+      ? `No overload of ${procedureName} accepts the given parameters. Overloads: ${list}`
+      : `Several overloads of ${procedureName} accept the given parameters; ` +
+          `pass overload to pick one. Overloads: ${list}`
+  );
+}
+
+// ============================================================================
+// Call Building
+// ============================================================================
+
+/**
+ * Build a call from the chosen overload's metadata. IN parameters without a
+ * value are left out so their defaults apply; OUT parameters are bound
+ * automatically.
+ */
+export function buildProcedureCall(
+  procedureName: string,
+  signature: ProcedureParam[],
+  values: Record<string, unknown> = {}
+): ProcedureCall {
+  const args = signature.filter(p => p.position > 0);
+  const given = new Map(Object.entries(values).map(([name, value]) => [name.toUpperCase(), value]));
+  for (const name of given.keys()) {
+    const param = args.find(p => p.name === name);
+    if (!param) {
+      throw new Error(`${procedureName} has no parameter ${name}`);
+    }
+    if (param.direction === 'OUT') {
+      throw new Error(`Parameter ${name} is OUT only and cannot be given a value`);
+    }
+  }
+
+  const binds: Record<string, oracledb.BindParameter> = {};
+  const outputs: Record<string, string> = {};
+  const cursors: string[] = [];
+  const argList: string[] = [];
+
+  for (const param of args) {
+    const kind = paramKind(param);
+    const hasValue = given.has(param.name);
+
+    if (param.direction === 'IN') {
+      if (!hasValue) {
+        if (!param.hasDefault) {
+          throw new Error(`Missing value for parameter ${param.name} of ${procedureName}`);
+        }
+        continue;
+      }
+      binds[param.name] = { ...inBind(param, kind, given.get(param.name)), dir: oracledb.BIND_IN };
+    } else if (param.direction === 'OUT') {
+      binds[param.name] = {
+        dir: oracledb.BIND_OUT,
+        type: driverType(kind),
+        maxSize: kind === 'string' ? MAX_STRING_OUT : undefined,
+      };
+    } else {
+      binds[param.name] = {
+        ...inBind(param, kind, given.get(param.name)),
+        dir: oracledb.BIND_INOUT,
+        maxSize: kind === 'string' ? MAX_STRING_OUT : undefined,
+      };
+    }
+
+    if (param.direction !== 'IN') {
+      outputs[param.name] = param.name;
+      if (kind === 'cursor') {
+        cursors.push(param.name);
+      }
+    }
+    argList.push(`${param.name} => :${param.name}`);
+  }
+
+  const returnParam = signature.find(p => p.position === 0);
+  let target = '';
+  if (returnParam) {
+    const kind = paramKind(returnParam);
+    binds[RETURN_BIND] = {
+      dir: oracledb.BIND_OUT,
+      type: driverType(kind),
+      maxSize: kind === 'string' ? MAX_STRING_OUT : undefined,
+    };
+    outputs[RETURN_BIND] = RETURN_PARAM;
+    if (kind === 'cursor') {
+      cursors.push(RETURN_PARAM);
+    }
+    target = `:${RETURN_BIND} := `;
+  }
+
+  const call = argList.length > 0 ? `${procedureName}(${argList.join(', ')})` : procedureName;
+  return {
+    sql: `BEGIN ${target}${call}; END;`,
+    binds,
+    outputs,
+    cursors,
+    isFunction: returnParam !== undefined,
+  };
+}
+
+const OUT_TYPE_KINDS: Record<ProcedureOutType, ParamKind> = {
+  string: 'string',
+  int: 'number',
+  float: 'number',
+  date: 'date',
+  timestamp: 'timestamp',
+  clob: 'clob',
+  blob: 'blob',
+  boolean: 'boolean',
+  cursor: 'cursor',
+};
+
+/**
+ * Build a call for a procedure whose parameters are not in the dictionary,
+ * e.g. one reached through a synonym or a database link. Values are bound as
+ * given and OUT parameters need their types spelled out.
+ */
+export function buildUntypedProcedureCall(
+  procedureName: string,
+  values: Record<string, unknown> = {},
+  outParams: Record<string, ProcedureOutType> = {}
+): ProcedureCall {
+  const binds: Record<string, oracledb.BindParameter> = {};
+  const outputs: Record<string, string> = {};
+  const cursors: string[] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    checkParameterName(name);
+    binds[name] = { val: value, dir: oracledb.BIND_IN };
+  }
+  for (const [name, type] of Object.entries(outParams)) {
+    checkParameterName(name);
+    const kind = OUT_TYPE_KINDS[type];
+    if (!kind) {
+      throw new Error(`Unknown OUT parameter type '${type}' for ${name}`);
+    }
+    binds[name] = {
+      dir: oracledb.BIND_OUT,
+      type: driverType(kind),
+      maxSize: kind === 'string' ? MAX_STRING_OUT : undefined,
+    };
+    outputs[name] = name;
+    if (kind === 'cursor') {
+      cursors.push(name);
+    }
+  }
+
+  const argList = Object.keys(binds).map(name => `${name} => :${name}`);
+  const call = argList.length > 0 ? `${procedureName}(${argList.join(', ')})` : procedureName;
+  return { sql: `BEGIN ${call}; END;`, binds, outputs, cursors, isFunction: false };
+}
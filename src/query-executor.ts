@@ -7,13 +7,174 @@
 
 import oracledb from 'oracledb';
 import { ConnectionManager } from './connection-manager.js';
+import {
+  SqlToken,
+  DmlTarget,
+  tokenize,
+  leadingKeywordIndex,
+  findKeywordSequence,
+  parseDmlTarget,
+} from './sql-lexer.js';
+import {
+  prepareBinds,
+  prepareBatchBinds,
+  collectOutBinds,
+  selectBinds,
+} from './binds.js';
+import { CursorRegistry } from './cursor-registry.js';
+import { ConfirmationRegistry } from './confirmation-registry.js';
+import { createRowEncoder, resolveExportPath, ExportFileWriter } from './exporter.js';
+import { isLob, lobTypeName, encodeBinary, materializeValue } from './lobs.js';
+import {
+  ColumnMapping,
+  CsvRecord,
+  convertField,
+  mapColumns,
+  readCsvFile,
+  resolveImportPath,
+  writeRejectFile,
+} from './importer.js';
+import { checkCostGuard, checkPolicy } from './safety-policy.js';
+import { DataMasker, RowMasker } from './masking.js';
+import { compareRows } from './result-compare.js';
+import {
+  ProcedureCall,
+  buildProcedureCall,
+  buildUntypedProcedureCall,
+  checkProcedureName,
+  selectOverload,
+} from './procedure-calls.js';
+import { AuditLog } from './audit-log.js';
+import { QueryHistory } from './query-history.js';
+import { resolveSavedQueryConnection, savedQueryBinds, savedQueryToolName } from './saved-queries.js';
 import {
   QueryResult,
   QueryType,
   DangerLevel,
   ConnectionMode,
+  ExecutionOptions,
+  BindValues,
+  ExportOptions,
+  ExportResult,
+  LobOptions,
+  LobReadRequest,
+  LobChunk,
+  ResultColumn,
+  ResultTable,
+  AuditEntry,
+  AuditFilter,
+  HistoryEntry,
+  HistoryFilter,
+  RerunSpec,
+  SavedQuery,
+  TransactionStatus,
+  BatchBindTypes,
+  BatchRowError,
+  ImportOptions,
+  ImportRejectedRow,
+  ImportResult,
+  TableInfo,
+  ProcedureParam,
+  ProcedureCallOptions,
+  PlanEstimate,
+  CompareOptions,
+  ComparisonResult,
 } from './types.js';
 
+// Rows fetched per round trip while exporting
+const EXPORT_BATCH_SIZE = 1000;
+
+// Savepoint a dry run rolls back to, leaving earlier uncommitted work intact
+const DRY_RUN_SAVEPOINT = 'mcp_dry_run';
+const DEFAULT_DRY_RUN_SAMPLE = 10;
+// Savepoint used to undo a statement that exceeds the policy's row limit
+const POLICY_SAVEPOINT = 'mcp_policy_limit';
+const BATCH_SAVEPOINT = 'mcp_batch';
+// Savepoint the cost guard's EXPLAIN PLAN rows are rolled back to
+const COST_GUARD_SAVEPOINT = 'mcp_cost_guard';
+const DEFAULT_IMPORT_BATCH_SIZE = 500;
+// Rejected rows listed in an import result; the reject file has all of them
+const MAX_LISTED_REJECTS = 20;
+const DRY_RUN_TYPES = [QueryType.INSERT, QueryType.UPDATE, QueryType.DELETE, QueryType.MERGE];
+
+// Default read_lob chunk: characters for CLOB/NCLOB, bytes for BLOB
+const DEFAULT_LOB_CHUNK = 32767;
+
+// DBMS_OUTPUT lines read per GET_LINES call, and the longest line it returns
+const OUTPUT_CHUNK_LINES = 100;
+const MAX_OUTPUT_LINE = 32767;
+
+// Rows read from each connection by compare_query unless max_rows says otherwise
+const DEFAULT_COMPARE_MAX_ROWS = 1000;
+
+// NUMBER values beyond double precision survive only as text
+function fetchNumbersAsStrings(metaData: oracledb.MetaData): oracledb.FetchTypeHandlerResult | undefined {
+  return metaData.dbType === oracledb.DB_TYPE_NUMBER ? { type: oracledb.STRING } : undefined;
+}
+
+/**
+ * Column descriptors for a result from the driver's fetch metadata.
+ */
+function describeColumns(metaData: oracledb.MetaData[]): ResultColumn[] {
+  return metaData.map(col => ({
+    name: col.name,
+    dbType: col.dbTypeName || 'UNKNOWN',
+    precision: col.precision || undefined,
+    // Unconstrained NUMBER and FLOAT report scale -127
+    scale: col.precision && col.scale !== -127 ? col.scale : undefined,
+    nullable: col.nullable !== false,
+    byteSize: col.byteSize || undefined,
+  }));
+}
+
+/**
+ * SELECT returning the ROWID and current values of the rows a DML statement
+ * targets, built from the statement's own table reference and condition.
+ */
+function buildAffectedRowsQuery(target: DmlTarget): string {
+  const ref = target.alias || target.table;
+  const from = target.alias ? `${target.table} ${target.alias}` : target.table;
+  let sql = `SELECT ${ref}.ROWID AS ROW_ID, ${ref}.* FROM ${from}`;
+
+  if (target.source) {
+    const source = target.sourceAlias
+      ? `${target.source.text} ${target.sourceAlias}`
+      : target.source.text;
+    sql += ` JOIN ${source} ON (${target.condition?.text})`;
+  } else if (target.condition) {
+    sql += ` WHERE ${target.condition.text}`;
+  }
+  return sql;
+}
+
+/**
+ * Validate a table or column name for use in generated SQL. Unquoted names
+ * fold to uppercase; quoted names are kept as given.
+ */
+function toIdentifier(name: string): string {
+  if (/^"[^"]+"$/.test(name)) {
+    return name;
+  }
+  if (/^[A-Za-z][A-Za-z0-9_$#]*$/.test(name)) {
+    return name.toUpperCase();
+  }
+  throw new Error(`Invalid identifier '${name}'`);
+}
+
+type AuditSummary = Pick<
+  AuditEntry,
+  'queryType' | 'rowsAffected' | 'rowsReturned' | 'transaction' | 'dryRun'
+>;
+
+function summarizeQueryResult(result: QueryResult): AuditSummary {
+  return {
+    queryType: result.queryType,
+    rowsAffected: result.affectedRows,
+    rowsReturned: result.rowCount,
+    transaction: result.transaction,
+  };
+}
+
 // ============================================================================
 // Query Type Detection
 // ============================================================================
@@ -26,58 +187,120 @@ const DANGEROUS_PATTERNS = {
   revoke: /\bREVOKE\s+/i,
 };
 
+const DDL_KEYWORDS = [
+  'CREATE',
+  'ALTER',
+  'DROP',
+  'TRUNCATE',
+  'GRANT',
+  'REVOKE',
+  'RENAME',
+  'ANALYZE',
+  'AUDIT',
+  'NOAUDIT',
+  'PURGE',
+  'FLASHBACK',
+];
+
+const STATEMENT_KEYWORDS: Record<string, QueryType> = {
+  SELECT: QueryType.SELECT,
+  WITH: QueryType.SELECT,
+  INSERT: QueryType.INSERT,
+  UPDATE: QueryType.UPDATE,
+  DELETE: QueryType.DELETE,
+  MERGE: QueryType.MERGE,
+  CALL: QueryType.CALL,
+  LOCK: QueryType.LOCK_TABLE,
+  COMMENT: QueryType.COMMENT,
+  BEGIN: QueryType.PLSQL,
+  DECLARE: QueryType.PLSQL,
+};
+
 export function detectQueryType(sql: string): QueryType {
-  const sqlStripped = sql.trim().toUpperCase();
-
-  if (sqlStripped.startsWith('SELECT')) {
-    return QueryType.SELECT;
-  } else if (sqlStripped.startsWith('INSERT')) {
-    return QueryType.INSERT;
-  } else if (sqlStripped.startsWith('UPDATE')) {
-    return QueryType.UPDATE;
-  } else if (sqlStripped.startsWith('DELETE')) {
-    return QueryType.DELETE;
-  } else if (['CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'GRANT', 'REVOKE'].some(kw => sqlStripped.startsWith(kw))) {
+  const tokens = tokenize(sql);
+  const index = leadingKeywordIndex(tokens);
+  if (index === -1) {
+    return QueryType.OTHER;
+  }
+
+  const keyword = tokens[index].value;
+  if (DDL_KEYWORDS.includes(keyword)) {
     return QueryType.DDL;
-  } else if (['BEGIN', 'DECLARE'].some(kw => sqlStripped.startsWith(kw)) || sqlStripped.includes('CREATE OR REPLACE')) {
-    return QueryType.PLSQL;
   }
-  return QueryType.OTHER;
+  return STATEMENT_KEYWORDS[keyword] || QueryType.OTHER;
+}
+
+/**
+ * Whether a SELECT takes row locks (SELECT ... FOR UPDATE).
+ */
+export function isLockingSelect(sql: string): boolean {
+  const tokens = tokenize(sql);
+  const index = leadingKeywordIndex(tokens);
+  return index !== -1 && findKeywordSequence(tokens, ['FOR', 'UPDATE'], tokens[index].depth) !== -1;
+}
+
+/**
+ * Rebuild the statement from its tokens for pattern matching. Comments are
+ * gone and literals are blanked, except in PL/SQL and DDL where string
+ * contents may be dynamic SQL (EXECUTE IMMEDIATE 'DROP TABLE ...').
+ */
+function normalizeForPatterns(tokens: SqlToken[], queryType: QueryType): string {
+  const scanStrings = queryType === QueryType.PLSQL || queryType === QueryType.DDL;
+  return tokens
+    .map(token => {
+      if (token.type === 'string') {
+        return scanStrings ? normalizeForPatterns(tokenize(token.value), queryType) : "''";
+      }
+      return token.type === 'word' ? token.value : token.text;
+    })
+    .join(' ');
 }
 
 export function assessDangerLevel(sql: string, queryType: QueryType): { level: DangerLevel; warnings: string[] } {
   const warnings: string[] = [];
+  const tokens = tokenize(sql);
 
   if (queryType === QueryType.SELECT) {
+    if (isLockingSelect(sql)) {
+      warnings.push('🔒 SELECT ... FOR UPDATE detected - selected rows stay locked until the transaction ends');
+      return { level: DangerLevel.MODERATE, warnings };
+    }
     return { level: DangerLevel.SAFE, warnings };
   }
 
   // Check for dangerous patterns
-  if (DANGEROUS_PATTERNS.drop.test(sql)) {
+  const normalized = normalizeForPatterns(tokens, queryType);
+
+  if (DANGEROUS_PATTERNS.drop.test(normalized)) {
     warnings.push('⚠️ DROP statement detected - this will permanently remove objects');
     return { level: DangerLevel.CRITICAL, warnings };
   }
 
-  if (DANGEROUS_PATTERNS.truncate.test(sql)) {
+  if (DANGEROUS_PATTERNS.truncate.test(normalized)) {
     warnings.push('⚠️ TRUNCATE statement detected - this will remove all data from the table');
     return { level: DangerLevel.CRITICAL, warnings };
   }
 
-  if (DANGEROUS_PATTERNS.alterSystem.test(sql)) {
+  if (DANGEROUS_PATTERNS.alterSystem.test(normalized)) {
     warnings.push('⚠️ ALTER SYSTEM detected - this modifies database configuration');
     return { level: DangerLevel.CRITICAL, warnings };
   }
 
-  // Check for UPDATE/DELETE without WHERE
+  // Check for UPDATE/DELETE without a WHERE clause on the statement itself
+  // (a WHERE inside a subquery does not filter the target rows)
+  const index = leadingKeywordIndex(tokens);
+  const statementDepth = index === -1 ? 0 : tokens[index].depth;
+  const hasWhere = findKeywordSequence(tokens, ['WHERE'], statementDepth) !== -1;
+
   if (queryType === QueryType.DELETE) {
-    if (!sql.toUpperCase().includes('WHERE')) {
+    if (!hasWhere) {
       warnings.push('⚠️ DELETE without WHERE clause - this will delete ALL rows in the table');
       return { level: DangerLevel.HIGH, warnings };
     }
   }
 
   if (queryType === QueryType.UPDATE) {
-    if (!sql.toUpperCase().includes('WHERE')) {
+    if (!hasWhere) {
       warnings.push('⚠️ UPDATE without WHERE clause - this will update ALL rows in the table');
       return { level: DangerLevel.HIGH, warnings };
     }
@@ -88,7 +311,21 @@ export function assessDangerLevel(sql: string, queryType: QueryType): { level: D
     return { level: DangerLevel.HIGH, warnings };
   }
 
-  if ([QueryType.INSERT, QueryType.UPDATE, QueryType.DELETE].includes(queryType)) {
+  if (queryType === QueryType.LOCK_TABLE) {
+    warnings.push('🔒 LOCK TABLE detected - the table stays locked until the transaction ends');
+    return { level: DangerLevel.MODERATE, warnings };
+  }
+
+  if (queryType === QueryType.COMMENT) {
+    warnings.push('ℹ️ COMMENT statement - the data dictionary will be changed and committed');
+    return { level: DangerLevel.MODERATE, warnings };
+  }
+
+  if (
+    [QueryType.INSERT, QueryType.UPDATE, QueryType.DELETE, QueryType.MERGE, QueryType.CALL].includes(
+      queryType
+    )
+  ) {
     return { level: DangerLevel.MODERATE, warnings };
   }
 
@@ -102,17 +339,169 @@ export function assessDangerLevel(sql: string, queryType: QueryType): { level: D
 export class QueryExecutor {
   private connectionManager: ConnectionManager;
   private defaultMaxRows: number;
+  private cursors: CursorRegistry;
+  private confirmations: ConfirmationRegistry;
+  private auditLog: AuditLog;
+  private history: QueryHistory;
+  private masker: DataMasker;
 
   constructor(connectionManager: ConnectionManager) {
     this.connectionManager = connectionManager;
     this.defaultMaxRows = connectionManager.getServerConfig().defaultMaxRows;
+    this.cursors = new CursorRegistry(connectionManager);
+    this.confirmations = new ConfirmationRegistry(
+      connectionManager.getServerConfig().confirmationTtl
+    );
+    this.auditLog = new AuditLog(connectionManager.getServerConfig().audit);
+    this.history = new QueryHistory(
+      connectionManager.getServerConfig().history,
+      connectionManager.getServerConfig().audit
+    );
+    this.masker = new DataMasker(connectionManager.getServerConfig().masking);
+  }
+
+  searchAuditLog(filter: AuditFilter): { entries: AuditEntry[]; total: number; path: string } {
+    if (!this.auditLog.enabled) {
+      throw new Error('The audit log is disabled (settings.audit.enabled is false)');
+    }
+    return { ...this.auditLog.search(filter), path: this.auditLog.path };
+  }
+
+  searchHistory(filter: HistoryFilter): { entries: HistoryEntry[]; total: number } {
+    return this.history.search(filter);
+  }
+
+  /**
+   * Run a saved query with parameter values from a tool call. SELECTs return
+   * rows like execute_query; other statements run and commit like
+   * execute_dml or execute_plsql, with the same checks.
+   */
+  async executeSavedQuery(
+    query: SavedQuery,
+    values: Record<string, unknown>,
+    connectionName?: string,
+    maxRows?: number,
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    const queryType = detectQueryType(query.sql);
+
+    let binds: BindValues;
+    let connection: string;
+    try {
+      connection = resolveSavedQueryConnection(query, connectionName);
+      binds = savedQueryBinds(query, values);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      return {
+        success: false,
+        queryType,
+        message: error,
+        error: 'Invalid saved query arguments',
+      };
+    }
+
+    const savedOptions = { ...options, tool: options.tool ?? savedQueryToolName(query) };
+    switch (queryType) {
+      case QueryType.SELECT:
+        return this.executeQuery(connection, query.sql, maxRows ?? query.maxRows, binds, savedOptions);
+      case QueryType.PLSQL:
+      case QueryType.DDL:
+        return this.executePlsql(connection, query.sql, binds, true, savedOptions);
+      default:
+        return this.executeDml(connection, query.sql, binds, true, savedOptions);
+    }
+  }
+
+  /**
+   * Run a statement from the query history again, optionally with another
+   * row limit or other binds. It passes the same checks as the original call.
+   */
+  async rerunQuery(
+    id: number,
+    overrides: { maxRows?: number; binds?: BindValues } = {},
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    const entry = this.history.get(id);
+    if (!entry) {
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `History entry #${id} not found. It may have been dropped from the history.`,
+        error: 'History entry not found',
+      };
+    }
+    if (!entry.rerun) {
+      return {
+        success: false,
+        queryType: entry.queryType,
+        message: `History entry #${id} (${entry.tool}) cannot be rerun.`,
+        error: 'Statement cannot be rerun',
+      };
+    }
+    // Redacted values are only kept as given until the server restarts
+    const original = this.history.original(id);
+    if (!original) {
+      return {
+        success: false,
+        queryType: entry.queryType,
+        message:
+          `History entry #${id} was recorded before the server restarted and its SQL or binds ` +
+          'were redacted. Run the statement again with its original values instead.',
+        error: 'Statement cannot be rerun',
+      };
+    }
+
+    const { sql } = original;
+    const binds = overrides.binds ?? original.binds;
+    const rerunOptions = { ...options, tool: options.tool ?? 'rerun_query' };
+    switch (entry.rerun.method) {
+      case 'query':
+        return this.executeQuery(
+          entry.connection,
+          sql,
+          overrides.maxRows ?? entry.rerun.maxRows,
+          binds,
+          rerunOptions
+        );
+      case 'dml':
+        return this.executeDml(entry.connection, sql, binds, entry.rerun.commit, rerunOptions);
+      case 'dry_run':
+        return this.previewDml(
+          entry.connection,
+          sql,
+          binds,
+          entry.rerun.sampleRows,
+          rerunOptions
+        );
+      case 'plsql':
+        return this.executePlsql(entry.connection, sql, binds, entry.rerun.commit, rerunOptions);
+    }
   }
 
   async executeQuery(
     connectionName: string,
     sql: string,
     maxRows?: number,
-    params?: Record<string, unknown>
+    params?: BindValues,
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    return this.audited(
+      options.tool ?? 'execute_query',
+      connectionName,
+      sql,
+      params,
+      () => this.runQuery(connectionName, sql, maxRows, params, options),
+      summarizeQueryResult,
+      { method: 'query', maxRows }
+    );
+  }
+
+  private async runQuery(
+    connectionName: string,
+    sql: string,
+    maxRows?: number,
+    params?: BindValues,
+    options: ExecutionOptions = {}
   ): Promise<QueryResult> {
     const queryType = detectQueryType(sql);
 
@@ -125,31 +514,92 @@ export class QueryExecutor {
       };
     }
 
+    const { level: dangerLevel, warnings } = assessDangerLevel(sql, queryType);
+    const blocked = this.enforcePolicy(connectionName, sql, queryType, dangerLevel, warnings);
+    if (blocked) {
+      return blocked;
+    }
+
     maxRows = maxRows || this.defaultMaxRows;
 
+    let connection: oracledb.Connection | undefined;
     try {
-      const connection = await this.connectionManager.getConnection(connectionName);
+      const { binds } = prepareBinds(params);
+
+      connection = await this.connectionManager.getConnection(connectionName);
+
+      const costWarnings: string[] = [];
+      const guarded = await this.enforceCostGuard(
+        connectionName,
+        connection,
+        sql,
+        params,
+        costWarnings,
+        options
+      );
+      if (guarded) {
+        return guarded;
+      }
 
       const startTime = Date.now();
 
-      const result = await connection.execute<unknown[]>(sql, params || {}, {
-        maxRows: maxRows + 1,
-        outFormat: oracledb.OUT_FORMAT_ARRAY,
-      });
+      const result = await this.connectionManager.runCancellable(connection, options, () =>
+        connection!.execute<unknown[]>(sql, binds, {
+          resultSet: true,
+          outFormat: oracledb.OUT_FORMAT_ARRAY,
+          fetchTypeHandler: this.numbersAsStrings(options) ? fetchNumbersAsStrings : undefined,
+        })
+      );
+      const resultSet = result.resultSet!;
+
+      // Read one row past the page to know whether more rows remain
+      const rows = await this.connectionManager.runCancellable(connection, options, () =>
+        resultSet.getRows(maxRows + 1)
+      );
 
       const executionTime = (Date.now() - startTime) / 1000;
 
-      // Get column names
-      const columns = result.metaData?.map((col: { name: string }) => col.name) || [];
+      const columns = describeColumns(resultSet.metaData);
+      const masker = this.resultMasker(connectionName, columns, sql);
 
       // Check if there are more rows
-      const rows = result.rows || [];
       const hasMore = rows.length > maxRows;
-      const resultRows = hasMore ? rows.slice(0, maxRows) : rows;
+      const resultRows = await this.materializeRows(
+        hasMore ? rows.slice(0, maxRows) : rows,
+        options,
+        masker
+      );
+
+      const warnings: string[] = [...costWarnings];
+      if (isLockingSelect(sql)) {
+        warnings.push(...assessDangerLevel(sql, queryType).warnings);
+      }
 
-      const warnings: string[] = [];
+      let continuationToken: string | undefined;
       if (hasMore) {
-        warnings.push(`ℹ️ Results limited to ${maxRows} rows. More rows available.`);
+        // The cursor keeps the session until it is exhausted, closed or expires
+        const cursor = await this.cursors.open(
+          connectionName,
+          connection,
+          resultSet,
+          columns,
+          rows.slice(maxRows),
+          maxRows,
+          masker
+        );
+        connection = undefined;
+        continuationToken = cursor.token;
+
+        warnings.push(
+          `ℹ️ Results limited to ${maxRows} rows. More rows available - use fetch_more to continue.`
+        );
+        if (cursor.evicted) {
+          warnings.push(
+            `ℹ️ Closed the least recently used cursor '${cursor.evicted}' (limit: ${this.connectionManager.getServerConfig().maxOpenCursors} open cursors per connection).`
+          );
+        }
+      } else {
+        await resultSet.close();
       }
 
       return {
@@ -161,6 +611,7 @@ export class QueryExecutor {
         rowCount: resultRows.length,
         executionTime,
         warnings: warnings.length > 0 ? warnings : undefined,
+        continuationToken,
       };
     } catch (e) {
       const error = e instanceof Error ? e.message : String(e);
@@ -172,360 +623,2638 @@ export class QueryExecutor {
         message: `Query failed: ${error}`,
         error,
       };
+    } finally {
+      if (connection) {
+        await this.connectionManager.releaseConnection(connectionName, connection);
+      }
     }
   }
 
-  async executeDml(
-    connectionName: string,
-    sql: string,
-    params?: Record<string, unknown>,
-    commit = true
+  /**
+   * Read the next page of a query started by executeQuery.
+   */
+  async fetchMore(
+    token: string,
+    maxRows?: number,
+    options: ExecutionOptions = {}
   ): Promise<QueryResult> {
-    const queryType = detectQueryType(sql);
+    maxRows = maxRows || this.defaultMaxRows;
+
+    try {
+      const startTime = Date.now();
+      const page = await this.cursors.fetch(token, maxRows, options, rows =>
+        this.materializeRows(rows, options)
+      );
+      const executionTime = (Date.now() - startTime) / 1000;
+
+      const lastRow = page.firstRow + page.rows.length - 1;
+      const range = page.rows.length > 0 ? `rows ${page.firstRow}-${lastRow}` : 'no further rows';
+
+      return {
+        success: true,
+        queryType: QueryType.SELECT,
+        message: `Fetched ${range}.${page.hasMore ? ' More rows available.' : ' End of results.'}`,
+        columns: page.columns,
+        rows: page.rows,
+        rowCount: page.rows.length,
+        executionTime,
+        continuationToken: page.hasMore ? token : undefined,
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
 
-    // Check connection mode
-    const config = this.connectionManager.getConnectionConfig(connectionName);
-    if (config.mode === ConnectionMode.READONLY) {
       return {
         success: false,
-        queryType,
-        message: `Connection '${connectionName}' is configured as READ ONLY. DML operations are not allowed.`,
-        error: 'Connection is read-only',
+        queryType: QueryType.SELECT,
+        message: `Fetch failed: ${error}`,
+        error,
       };
     }
+  }
 
-    // Assess danger level
-    const { level: dangerLevel, warnings } = assessDangerLevel(sql, queryType);
+  /**
+   * Run the same SELECT on two connections and compare the results. Each
+   * side runs like execute_query, with its policy, cost guard and masking,
+   * and must fit within the row limit so no rows go unseen.
+   */
+  async compareQuery(
+    connectionA: string,
+    connectionB: string,
+    sql: string,
+    compare: CompareOptions = {},
+    params?: BindValues,
+    options: ExecutionOptions = {}
+  ): Promise<ComparisonResult> {
+    if (detectQueryType(sql) !== QueryType.SELECT) {
+      return {
+        success: false,
+        message: 'compare_query only supports SELECT statements.',
+        connectionA,
+        connectionB,
+        error: 'Invalid query type',
+      };
+    }
+
+    const maxRows = compare.maxRows || DEFAULT_COMPARE_MAX_ROWS;
+
+    // Each side holds its query on its own connection, but a comparison is
+    // confirmed as a whole: a token issued for the pair confirms both sides.
+    // A side that no longer needs confirmation leaves its token to expire.
+    const pair = `compare_query:${connectionA}:${connectionB}`;
+    const confirmed =
+      options.confirmationToken !== undefined &&
+      this.confirmations.consume(options.confirmationToken, pair, sql, params);
+    const sideOptions = (connectionName: string): ExecutionOptions => ({
+      ...options,
+      tool: options.tool ?? 'compare_query',
+      confirmationToken: confirmed
+        ? this.confirmations.issue(connectionName, sql, params)
+        : undefined,
+    });
+
+    const startTime = Date.now();
+    const [resultA, resultB] = await Promise.all([
+      this.executeQuery(connectionA, sql, maxRows, params, sideOptions(connectionA)),
+      this.executeQuery(connectionB, sql, maxRows, params, sideOptions(connectionB)),
+    ]);
+    const executionTime = (Date.now() - startTime) / 1000;
+
+    // Only complete results can be compared; open cursors are not needed
+    for (const result of [resultA, resultB]) {
+      if (result.continuationToken) {
+        await this.cursors.close(result.continuationToken);
+      }
+    }
+
+    const failure = (message: string, error: string): ComparisonResult => ({
+      success: false,
+      message,
+      connectionA,
+      connectionB,
+      executionTime,
+      error,
+    });
+    const sides = [
+      [connectionA, resultA],
+      [connectionB, resultB],
+    ] as const;
+    for (const [name, result] of sides) {
+      if (!result.success && !result.confirmationToken) {
+        return failure(
+          `Query on '${name}' failed: ${result.message}`,
+          result.error || result.message
+        );
+      }
+      if (result.continuationToken) {
+        return failure(
+          `Query on '${name}' returned more than ${maxRows} rows. Raise max_rows or narrow the query to compare complete results.`,
+          'Result too large to compare'
+        );
+      }
+    }
 
-    if (dangerLevel === DangerLevel.CRITICAL) {
+    // Both sides run the same SQL, so most warnings are reported twice
+    const warnings = Array.from(
+      new Set([...(resultA.warnings || []), ...(resultB.warnings || [])])
+    );
+
+    const held = sides
+      .filter(([, result]) => result.confirmationToken)
+      .map(([name]) => `'${name}'`);
+    if (held.length > 0) {
+      if (options.confirmationToken && !confirmed) {
+        warnings.push(
+          '⚠️ The confirmation token is invalid, expired, already used or was issued for a different comparison. A new token was issued.'
+        );
+      }
+      const token = this.confirmations.issue(pair, sql, params);
       return {
         success: false,
-        queryType,
-        message: 'This operation is blocked for safety. ' + warnings.join(' '),
-        error: 'Dangerous operation blocked',
-        warnings,
+        message:
+          `Confirmation required on ${held.join(' and ')}. Review the warnings, then resubmit ` +
+          `the same comparison with confirmation_token '${token}' within ` +
+          `${this.confirmations.ttl} seconds.`,
+        connectionA,
+        connectionB,
+        executionTime,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        confirmationToken: token,
+        error: 'Confirmation required',
+      };
+    }
+
+    try {
+      const comparison = compareRows(
+        { label: `'${connectionA}'`, columns: resultA.columns!, rows: resultA.rows! },
+        { label: `'${connectionB}'`, columns: resultB.columns!, rows: resultB.rows! },
+        compare.keyColumns,
+        compare.maxDifferences
+      );
+
+      // Redacted and partially masked values can hide real differences
+      const masked = comparison.columns.filter(
+        col => col.masked === 'redact' || col.masked === 'partial'
+      );
+      if (masked.length > 0) {
+        warnings.push(
+          `🔒 Masked columns are compared on their masked values: ${masked.map(col => col.name).join(', ')}`
+        );
+      }
+
+      const differences =
+        comparison.onlyInACount + comparison.onlyInBCount + comparison.changedCount;
+      const sameColumns =
+        comparison.columnsOnlyInA.length === 0 && comparison.columnsOnlyInB.length === 0;
+      let message =
+        differences === 0
+          ? `Results match: ${comparison.matchingRows} row(s) on both connections.`
+          : `Results differ: ${comparison.onlyInACount} row(s) only in '${connectionA}', ` +
+            `${comparison.onlyInBCount} only in '${connectionB}', ${comparison.changedCount} changed.`;
+      if (!sameColumns) {
+        message += ' The column lists differ; only shared columns were compared.';
+      }
+
+      return {
+        success: true,
+        message,
+        connectionA,
+        connectionB,
+        rowCountA: resultA.rows!.length,
+        rowCountB: resultB.rows!.length,
+        ...comparison,
+        executionTime,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      return failure(`Comparison failed: ${error}`, error);
+    }
+  }
+
+  /**
+   * Stream the full result of a SELECT to a file in the export directory.
+   * LOB columns are fetched inline as strings and buffers.
+   */
+  async exportQuery(
+    connectionName: string,
+    sql: string,
+    exportOptions: ExportOptions,
+    params?: BindValues,
+    options: ExecutionOptions = {}
+  ): Promise<ExportResult> {
+    return this.audited(
+      options.tool ?? 'export_query',
+      connectionName,
+      sql,
+      params,
+      () => this.runExport(connectionName, sql, exportOptions, params, options),
+      result => ({ queryType: QueryType.SELECT, rowsReturned: result.rowCount })
+    );
+  }
+
+  private async runExport(
+    connectionName: string,
+    sql: string,
+    exportOptions: ExportOptions,
+    params?: BindValues,
+    options: ExecutionOptions = {}
+  ): Promise<ExportResult> {
+    const format = exportOptions.format;
+
+    if (detectQueryType(sql) !== QueryType.SELECT) {
+      return {
+        success: false,
+        format,
+        message: 'export_query only supports SELECT statements.',
+        error: 'Invalid query type',
       };
     }
 
+    const { level: dangerLevel, warnings } = assessDangerLevel(sql, QueryType.SELECT);
+    const refused = (result: QueryResult): ExportResult => ({
+      success: false,
+      format,
+      message: result.message,
+      error: result.error,
+      warnings: result.warnings,
+      confirmationToken: result.confirmationToken,
+    });
+
+    const blocked = this.enforcePolicy(
+      connectionName,
+      sql,
+      QueryType.SELECT,
+      dangerLevel,
+      warnings
+    );
+    if (blocked) {
+      return refused(blocked);
+    }
+
+    let connection: oracledb.Connection | undefined;
+    let resultSet: oracledb.ResultSet<unknown[]> | undefined;
+    let writer: ExportFileWriter | undefined;
     try {
-      const connection = await this.connectionManager.getConnection(connectionName);
+      const path = resolveExportPath(
+        this.connectionManager.getServerConfig().exportDir,
+        exportOptions.file
+      );
+      const { binds } = prepareBinds(params);
+
+      const numbersAsStrings = this.numbersAsStrings(options);
+
+      connection = await this.connectionManager.getConnection(connectionName);
+
+      const guarded = await this.enforceCostGuard(
+        connectionName,
+        connection,
+        sql,
+        params,
+        warnings,
+        options
+      );
+      if (guarded) {
+        return refused(guarded);
+      }
 
       const startTime = Date.now();
 
-      const result = await connection.execute(sql, params || {}, {
-        autoCommit: false,
-      });
+      const result = await this.connectionManager.runCancellable(connection, options, () =>
+        connection!.execute<unknown[]>(sql, binds, {
+          resultSet: true,
+          outFormat: oracledb.OUT_FORMAT_ARRAY,
+          fetchArraySize: EXPORT_BATCH_SIZE,
+          fetchTypeHandler: metaData => {
+            if (metaData.dbType === oracledb.DB_TYPE_CLOB || metaData.dbType === oracledb.DB_TYPE_NCLOB) {
+              return { type: oracledb.STRING };
+            }
+            if (metaData.dbType === oracledb.DB_TYPE_BLOB) {
+              return { type: oracledb.BUFFER };
+            }
+            return numbersAsStrings ? fetchNumbersAsStrings(metaData) : undefined;
+          },
+        })
+      );
+      resultSet = result.resultSet!;
 
-      const affectedRows = result.rowsAffected || 0;
-      const executionTime = (Date.now() - startTime) / 1000;
+      const columns = describeColumns(resultSet.metaData);
+      const masker = this.resultMasker(connectionName, columns, sql);
+      const encoder = createRowEncoder(columns, exportOptions);
+      writer = new ExportFileWriter(path, exportOptions.overwrite);
 
-      let commitMsg: string;
-      if (commit) {
-        await connection.commit();
-        commitMsg = 'Changes committed.';
-      } else {
-        commitMsg = 'Changes NOT committed (auto-commit disabled).';
+      await writer.write(encoder.header());
+
+      let rowCount = 0;
+      for (;;) {
+        const rows = await this.connectionManager.runCancellable(connection, options, () =>
+          resultSet!.getRows(EXPORT_BATCH_SIZE)
+        );
+        for (const row of masker ? masker.maskRows(rows) : rows) {
+          await writer.write(encoder.row(row));
+        }
+        rowCount += rows.length;
+        if (rows.length < EXPORT_BATCH_SIZE) {
+          break;
+        }
       }
 
+      await writer.finish();
+      const executionTime = (Date.now() - startTime) / 1000;
+
       return {
         success: true,
-        queryType,
-        message: `Statement executed successfully. ${affectedRows} row(s) affected. ${commitMsg}`,
-        affectedRows,
+        format,
+        message: `Exported ${rowCount} row(s) to ${writer.path}`,
+        file: writer.path,
+        rowCount,
+        bytesWritten: writer.bytesWritten,
         executionTime,
         warnings: warnings.length > 0 ? warnings : undefined,
       };
     } catch (e) {
       const error = e instanceof Error ? e.message : String(e);
-      console.error(`DML execution failed: ${error}`);
+      console.error(`Export failed: ${error}`);
 
-      // Rollback on error
-      try {
-        const connection = await this.connectionManager.getConnection(connectionName);
-        await connection.rollback();
-      } catch {
-        // Ignore rollback errors
+      if (writer) {
+        await writer.abort();
       }
 
       return {
         success: false,
-        queryType,
-        message: `Statement failed: ${error}`,
+        format,
+        message: `Export failed: ${error}`,
         error,
         warnings: warnings.length > 0 ? warnings : undefined,
       };
+    } finally {
+      if (resultSet) {
+        await resultSet.close().catch(() => undefined);
+      }
+      if (connection) {
+        await this.connectionManager.releaseConnection(connectionName, connection);
+      }
     }
   }
 
-  async executePlsql(
+  /**
+   * Read part of a LOB column from the row identified by ROWID.
+   */
+  async readLob(
     connectionName: string,
-    plsql: string,
-    params?: Record<string, unknown>,
-    commit = true
-  ): Promise<QueryResult> {
-    const queryType = detectQueryType(plsql);
-
-    // Check connection mode
-    const config = this.connectionManager.getConnectionConfig(connectionName);
-    if (config.mode === ConnectionMode.READONLY) {
+    request: LobReadRequest,
+    options: ExecutionOptions = {}
+  ): Promise<LobChunk> {
+    let column: string;
+    let table: string;
+    try {
+      column = toIdentifier(request.column);
+      table = request.schema
+        ? `${toIdentifier(request.schema)}.${toIdentifier(request.table)}`
+        : toIdentifier(request.table);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
       return {
         success: false,
-        queryType,
-        message: `Connection '${connectionName}' is configured as READ ONLY. PL/SQL execution is not allowed.`,
-        error: 'Connection is read-only',
+        message: `Failed to read LOB: ${error}`,
+        error,
       };
     }
+    const sql = `SELECT ${column} FROM ${table} WHERE ROWID = CHARTOROWID(:rid)`;
+
+    return this.audited(
+      options.tool ?? 'read_lob',
+      connectionName,
+      sql,
+      { rid: request.rowid },
+      () => this.runReadLob(connectionName, request, column, table, sql, options),
+      () => ({ queryType: QueryType.SELECT })
+    );
+  }
 
-    // Assess danger level
-    const { level: dangerLevel, warnings } = assessDangerLevel(plsql, queryType);
+  private async runReadLob(
+    connectionName: string,
+    request: LobReadRequest,
+    column: string,
+    table: string,
+    sql: string,
+    options: ExecutionOptions
+  ): Promise<LobChunk> {
+    const offset = request.offset || 1;
+    const length = request.length || DEFAULT_LOB_CHUNK;
 
-    if (dangerLevel === DangerLevel.CRITICAL) {
-      // Check if it's a CREATE/ALTER for procedures/functions (allow these)
-      const allowedCreate = /\bCREATE\s+(OR\s+REPLACE\s+)?(PROCEDURE|FUNCTION|PACKAGE|TRIGGER|TYPE|VIEW)\b/i;
-      if (!allowedCreate.test(plsql)) {
-        return {
-          success: false,
-          queryType,
-          message: 'This operation is blocked for safety. ' + warnings.join(' '),
-          error: 'Dangerous operation blocked',
-          warnings,
-        };
+    try {
+      if (!Number.isInteger(offset) || offset < 1 || !Number.isInteger(length) || length < 1) {
+        throw new Error('offset and length must be positive integers');
       }
-    }
 
-    try {
-      const connection = await this.connectionManager.getConnection(connectionName);
+      // A masked column cannot be read in chunks; value patterns apply to text chunks
+      const masker = this.resultMasker(
+        connectionName,
+        [{ name: column.replace(/^"(.*)"$/, '$1'), dbType: 'LOB', nullable: true }],
+        sql
+      );
+      if (masker?.columns[0]) {
+        throw new Error(`${column} is masked on connection '${connectionName}'`);
+      }
 
-      const startTime = Date.now();
+      const { level: dangerLevel, warnings } = assessDangerLevel(sql, QueryType.SELECT);
+      const blocked = this.enforcePolicy(
+        connectionName,
+        sql,
+        QueryType.SELECT,
+        dangerLevel,
+        warnings
+      );
+      if (blocked) {
+        return { success: false, message: blocked.message, error: blocked.error };
+      }
+
+      return await this.connectionManager.withConnection(connectionName, async connection => {
+        const result = await this.connectionManager.runCancellable(connection, options, () =>
+          connection.execute<[unknown]>(
+            sql,
+            { rid: request.rowid },
+            { outFormat: oracledb.OUT_FORMAT_ARRAY }
+          )
+        );
+
+        if (!result.rows || result.rows.length === 0) {
+          throw new Error(`No row with ROWID '${request.rowid}' in ${table}`);
+        }
+
+        const lob = result.rows[0][0];
+        if (lob === null) {
+          return { success: true, message: `${column} is NULL`, column, hasMore: false };
+        }
+        if (!isLob(lob)) {
+          throw new Error(`${column} is not a LOB column`);
+        }
 
-      await connection.execute(plsql, params || {}, {
-        autoCommit: false,
+        try {
+          const lobType = lobTypeName(lob);
+          const totalLength = lob.length;
+          const amount = Math.max(0, Math.min(length, totalLength - offset + 1));
+          const data = amount > 0 ? await lob.getData(offset, amount) : null;
+
+          let text: string;
+          let encoding: LobChunk['encoding'];
+          if (Buffer.isBuffer(data)) {
+            encoding = request.encoding || 'base64';
+            text = encodeBinary(data, encoding);
+          } else {
+            encoding = lobType === 'BLOB' ? request.encoding || 'base64' : 'text';
+            text = data || '';
+            if (masker) {
+              text = masker.maskRows([[text]])[0][0] as string;
+            }
+          }
+
+          const hasMore = offset + amount - 1 < totalLength;
+          return {
+            success: true,
+            message:
+              amount > 0
+                ? `Read ${lobType} ${column} positions ${offset}-${offset + amount - 1} of ${totalLength}`
+                : `Offset ${offset} is past the end of ${lobType} ${column} (length ${totalLength})`,
+            column,
+            lobType,
+            totalLength,
+            offset,
+            length: amount,
+            data: text,
+            encoding,
+            hasMore,
+          };
+        } finally {
+          lob.destroy();
+        }
       });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      return {
+        success: false,
+        message: `Failed to read LOB: ${error}`,
+        error,
+      };
+    }
+  }
 
-      const executionTime = (Date.now() - startTime) / 1000;
+  async closeCursors(connectionName?: string): Promise<number> {
+    return connectionName
+      ? this.cursors.closeForConnection(connectionName)
+      : this.cursors.closeAll();
+  }
 
-      if (commit) {
-        await connection.commit();
+  async executeDml(
+    connectionName: string,
+    sql: string,
+    params?: BindValues,
+    commit = true,
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    return this.audited(
+      options.tool ?? 'execute_dml',
+      connectionName,
+      sql,
+      params,
+      () => this.runDml(connectionName, sql, params, commit, options),
+      summarizeQueryResult,
+      { method: 'dml', commit }
+    );
+  }
+
+  private async runDml(
+    connectionName: string,
+    sql: string,
+    params?: BindValues,
+    commit = true,
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    const queryType = detectQueryType(sql);
+
+    // Check connection mode
+    const config = this.connectionManager.getConnectionConfig(connectionName);
+    if (config.mode === ConnectionMode.READONLY) {
+      return {
+        success: false,
+        queryType,
+        message: `Connection '${connectionName}' is configured as READ ONLY. DML operations are not allowed.`,
+        error: 'Connection is read-only',
+      };
+    }
+
+    // Assess danger level
+    const { level: dangerLevel, warnings } = assessDangerLevel(sql, queryType);
+
+    const blocked = this.enforcePolicy(connectionName, sql, queryType, dangerLevel, warnings);
+    if (blocked) {
+      return blocked;
+    }
+
+    // Inside begin_transaction, statements wait for an explicit commit
+    const inTransaction = this.connectionManager.isExplicitTransaction(connectionName);
+    if (inTransaction) {
+      commit = false;
+      if (queryType === QueryType.DDL) {
+        warnings.push('⚠️ DDL commits the open transaction implicitly, including earlier statements');
       }
+    }
 
-      // Check for compilation errors (for CREATE statements)
-      let compilationStatus: string | undefined;
-      if (plsql.toUpperCase().includes('CREATE')) {
-        const match = plsql.match(
-          /CREATE\s+(OR\s+REPLACE\s+)?(PROCEDURE|FUNCTION|PACKAGE|TRIGGER|TYPE)\s+(\w+)/i
-        );
-        if (match) {
-          const objType = match[2].toUpperCase();
-          const objName = match[3].toUpperCase();
+    const held = this.holdForConfirmation(
+      connectionName,
+      sql,
+      params,
+      queryType,
+      dangerLevel,
+      warnings,
+      options
+    );
+    if (held) {
+      return held;
+    }
 
-          const statusResult = await connection.execute<[string]>(
-            'SELECT status FROM user_objects WHERE object_name = :name AND object_type = :type',
-            { name: objName, type: objType }
-          );
+    const { maxDmlRows } = this.connectionManager.getPolicy(connectionName);
+    const limitRows = maxDmlRows !== undefined && DRY_RUN_TYPES.includes(queryType);
+    const hadPendingWork = this.connectionManager.hasPinnedConnection(connectionName);
 
-          if (statusResult.rows && statusResult.rows.length > 0) {
-            compilationStatus = statusResult.rows[0][0];
-            if (compilationStatus !== 'VALID') {
-              // Get compilation errors
-              const errorsResult = await connection.execute<[number, number, string]>(
-                `SELECT line, position, text FROM user_errors 
-                 WHERE name = :name AND type = :type 
-                 ORDER BY sequence`,
-                { name: objName, type: objType }
-              );
+    let connection: oracledb.Connection | undefined;
+    try {
+      const { binds, outKeys } = prepareBinds(params, true);
 
-              if (errorsResult.rows && errorsResult.rows.length > 0) {
-                const errorDetails = errorsResult.rows
-                  .map((row: [number, number, string]) => `  Line ${row[0]}, Col ${row[1]}: ${row[2]}`)
-                  .join('\n');
+      connection = await this.connectionManager.getConnection(connectionName);
 
-                return {
-                  success: false,
-                  queryType,
-                  message: `PL/SQL compiled with errors:\n${errorDetails}`,
-                  error: `Compilation failed for ${objType} ${objName}`,
-                  executionTime,
-                };
-              }
-            }
-          }
+      const startTime = Date.now();
+
+      if (limitRows) {
+        await connection.execute(`SAVEPOINT ${POLICY_SAVEPOINT}`);
+      }
+
+      const result = await this.connectionManager.runCancellable(connection, options, () =>
+        connection!.execute(sql, binds, {
+          autoCommit: false,
+        })
+      );
+
+      const affectedRows = result.rowsAffected || 0;
+      const executionTime = (Date.now() - startTime) / 1000;
+
+      if (limitRows && affectedRows > maxDmlRows!) {
+        // Undo only this statement; earlier uncommitted work stays pending
+        await connection.execute(`ROLLBACK TO SAVEPOINT ${POLICY_SAVEPOINT}`);
+        if (!hadPendingWork) {
+          await this.connectionManager.endTransaction(connectionName, connection, 'rollback');
         }
+        return {
+          success: false,
+          queryType,
+          message:
+            `Statement would affect ${affectedRows} row(s), more than the ${maxDmlRows} allowed by ` +
+            `the safety policy of connection '${connectionName}'. The statement was rolled back.`,
+          error: 'Blocked by safety policy',
+          affectedRows,
+          transaction: 'rolled_back',
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
       }
 
-      const statusMsg = compilationStatus ? ` Object status: ${compilationStatus}.` : '';
+      // Read LOB OUT values before the commit can free temporary LOBs
+      const outputParams = await this.materializeOutputs(
+        connectionName,
+        collectOutBinds(result.outBinds, outKeys),
+        options
+      );
+
+      let commitMsg: string;
+      if (commit) {
+        await this.connectionManager.endTransaction(connectionName, connection, 'commit');
+        this.connectionManager.unpinConnection(connectionName, connection);
+        commitMsg = 'Changes committed.';
+      } else {
+        // Keep the session so a later commit/rollback sees this work
+        this.connectionManager.pinConnection(connectionName, connection);
+        commitMsg = inTransaction
+          ? 'Changes NOT committed (explicit transaction open - use commit or rollback).'
+          : 'Changes NOT committed (auto-commit disabled).';
+      }
 
       return {
         success: true,
         queryType,
-        message: `PL/SQL executed successfully.${statusMsg}`,
+        message: `Statement executed successfully. ${affectedRows} row(s) affected. ${commitMsg}`,
+        affectedRows,
+        outputParams,
         executionTime,
+        transaction: commit ? 'committed' : 'pending',
         warnings: warnings.length > 0 ? warnings : undefined,
       };
     } catch (e) {
       const error = e instanceof Error ? e.message : String(e);
-      console.error(`PL/SQL execution failed: ${error}`);
+      console.error(`DML execution failed: ${error}`);
+
+      // Oracle already undid the failed statement; an explicit transaction keeps the rest
+      if (inTransaction) {
+        return {
+          success: false,
+          queryType,
+          message: `Statement failed: ${error}. The transaction is still open.`,
+          error,
+          transaction: 'pending',
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
+      }
+
+      // Rollback on error
+      if (connection) {
+        try {
+          await this.connectionManager.endTransaction(connectionName, connection, 'rollback');
+        } catch {
+          // Ignore rollback errors
+        }
+        this.connectionManager.unpinConnection(connectionName, connection);
+      }
 
       return {
         success: false,
         queryType,
-        message: `PL/SQL execution failed: ${error}`,
+        message: `Statement failed: ${error}`,
         error,
+        transaction: connection ? 'rolled_back' : undefined,
         warnings: warnings.length > 0 ? warnings : undefined,
       };
+    } finally {
+      if (connection) {
+        await this.connectionManager.releaseConnection(connectionName, connection);
+      }
     }
   }
 
-  async executeProcedure(
+  /**
+   * Run one DML statement for many bind rows in a single round trip. With
+   * atomic set, any failed row rolls the whole batch back; otherwise the
+   * rows that succeeded are kept and the failures are reported.
+   */
+  async executeBatch(
     connectionName: string,
-    procedureName: string,
-    params?: Record<string, unknown>,
-    outParams?: Record<string, 'string' | 'int' | 'float'>
+    sql: string,
+    rows: BindValues[],
+    bindTypes?: BatchBindTypes,
+    commit = true,
+    atomic = true,
+    options: ExecutionOptions = {}
   ): Promise<QueryResult> {
-    const config = this.connectionManager.getConnectionConfig(connectionName);
+    // Bind rows are not logged; a batch can hold thousands of them
+    return this.audited(
+      options.tool ?? 'execute_batch',
+      connectionName,
+      sql,
+      undefined,
+      () => this.runBatch(connectionName, sql, rows, bindTypes, commit, atomic, options),
+      summarizeQueryResult
+    );
+  }
+
+  private async runBatch(
+    connectionName: string,
+    sql: string,
+    rows: BindValues[],
+    bindTypes: BatchBindTypes | undefined,
+    commit: boolean,
+    atomic: boolean,
+    options: ExecutionOptions
+  ): Promise<QueryResult> {
+    const queryType = detectQueryType(sql);
+    if (!DRY_RUN_TYPES.includes(queryType)) {
+      return {
+        success: false,
+        queryType,
+        message: 'execute_batch only runs INSERT, UPDATE, DELETE and MERGE statements.',
+        error: 'Unsupported statement type',
+      };
+    }
 
-    const warnings: string[] = [];
+    const config = this.connectionManager.getConnectionConfig(connectionName);
     if (config.mode === ConnectionMode.READONLY) {
-      warnings.push(
-        "ℹ️ Connection is READ ONLY. Procedure will fail if it attempts to modify data."
-      );
+      return {
+        success: false,
+        queryType,
+        message: `Connection '${connectionName}' is configured as READ ONLY. DML operations are not allowed.`,
+        error: 'Connection is read-only',
+      };
+    }
+
+    const { level: dangerLevel, warnings } = assessDangerLevel(sql, queryType);
+
+    const blocked = this.enforcePolicy(connectionName, sql, queryType, dangerLevel, warnings);
+    if (blocked) {
+      return blocked;
     }
 
+    let prepared: ReturnType<typeof prepareBatchBinds>;
     try {
-      const connection = await this.connectionManager.getConnection(connectionName);
+      prepared = prepareBatchBinds(rows, bindTypes);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      return { success: false, queryType, message: `Invalid bind rows: ${error}`, error };
+    }
 
-      // Build bind parameters
-      const bindParams: Record<string, oracledb.BindParameter> = {};
+    const inTransaction = this.connectionManager.isExplicitTransaction(connectionName);
+    if (inTransaction) {
+      commit = false;
+    }
 
-      // Add input parameters
-      if (params) {
-        for (const [name, value] of Object.entries(params)) {
-          bindParams[name] = { val: value, dir: oracledb.BIND_IN };
-        }
-      }
+    // The token covers every bind row, so a changed batch needs a new one
+    const held = this.holdForConfirmation(
+      connectionName,
+      sql,
+      rows,
+      queryType,
+      dangerLevel,
+      warnings,
+      options
+    );
+    if (held) {
+      return held;
+    }
 
-      // Add output parameters
-      if (outParams) {
-        for (const [name, typeStr] of Object.entries(outParams)) {
-          let type: number;
-          let maxSize: number | undefined;
-
-          switch (typeStr) {
-            case 'string':
-              type = oracledb.STRING;
-              maxSize = 4000;
-              break;
-            case 'int':
-            case 'float':
-              type = oracledb.NUMBER;
-              break;
-            default:
-              type = oracledb.STRING;
-              maxSize = 4000;
-          }
+    const { maxDmlRows } = this.connectionManager.getPolicy(connectionName);
+    const hadPendingWork = this.connectionManager.hasPinnedConnection(connectionName);
 
-          bindParams[name] = {
-            dir: oracledb.BIND_OUT,
-            type,
-            maxSize,
-          };
-        }
+    // Undo only the batch; earlier uncommitted work stays pending
+    const undoBatch = async (connection: oracledb.Connection): Promise<void> => {
+      await connection.execute(`ROLLBACK TO SAVEPOINT ${BATCH_SAVEPOINT}`);
+      if (!hadPendingWork) {
+        await this.connectionManager.endTransaction(connectionName, connection, 'rollback');
       }
+    };
+
+    let connection: oracledb.Connection | undefined;
+    try {
+      connection = await this.connectionManager.getConnection(connectionName);
 
       const startTime = Date.now();
+      await connection.execute(`SAVEPOINT ${BATCH_SAVEPOINT}`);
+
+      const result = await this.connectionManager.runCancellable(connection, options, () =>
+        connection!.executeMany(sql, prepared.binds, {
+          autoCommit: false,
+          batchErrors: true,
+          dmlRowCounts: true,
+          bindDefs: prepared.bindDefs,
+        })
+      );
 
-      // Build the PL/SQL call
-      const paramNames = Object.keys(bindParams);
-      const paramList = paramNames.map(name => `${name} => :${name}`).join(', ');
-      const plsqlCall = `BEGIN ${procedureName}(${paramList}); END;`;
+      const affectedRows = result.rowsAffected || 0;
+      const executionTime = (Date.now() - startTime) / 1000;
+      const batchErrors: BatchRowError[] = (result.batchErrors || []).map(e => ({
+        index: e.offset,
+        error: e.message,
+      }));
 
-      const result = await connection.execute(plsqlCall, bindParams);
+      if (batchErrors.length > 0 && atomic) {
+        await undoBatch(connection);
+        return {
+          success: false,
+          queryType,
+          message:
+            `${batchErrors.length} of ${rows.length} bind row(s) failed. ` +
+            'The batch was rolled back; no rows were changed.',
+          error: 'Batch rows failed',
+          batchErrors,
+          executionTime,
+          transaction: 'rolled_back',
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
+      }
 
-      const executionTime = (Date.now() - startTime) / 1000;
+      if (maxDmlRows !== undefined && affectedRows > maxDmlRows) {
+        await undoBatch(connection);
+        return {
+          success: false,
+          queryType,
+          message:
+            `Batch would affect ${affectedRows} row(s), more than the ${maxDmlRows} allowed by ` +
+            `the safety policy of connection '${connectionName}'. The batch was rolled back.`,
+          error: 'Blocked by safety policy',
+          affectedRows,
+          transaction: 'rolled_back',
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
+      }
 
-      // Get output values
-      const outputValues: Record<string, unknown> = {};
-      if (outParams) {
-        for (const name of Object.keys(outParams)) {
-          outputValues[name] = (result.outBinds as Record<string, unknown>)?.[name];
-        }
+      const unmatched = (result.dmlRowCounts || []).filter(
+        (count, i) => count === 0 && !batchErrors.some(e => e.index === i)
+      ).length;
+      if (unmatched > 0) {
+        warnings.push(`⚠️ ${unmatched} bind row(s) did not match any rows`);
       }
 
-      await connection.commit();
+      let commitMsg: string;
+      if (commit) {
+        await this.connectionManager.endTransaction(connectionName, connection, 'commit');
+        this.connectionManager.unpinConnection(connectionName, connection);
+        commitMsg = 'Changes committed.';
+      } else {
+        this.connectionManager.pinConnection(connectionName, connection);
+        commitMsg = inTransaction
+          ? 'Changes NOT committed (explicit transaction open - use commit or rollback).'
+          : 'Changes NOT committed (auto-commit disabled).';
+      }
 
+      const failed = batchErrors.length > 0 ? `, ${batchErrors.length} failed` : '';
       return {
         success: true,
-        queryType: QueryType.PLSQL,
-        message: `Procedure '${procedureName}' executed successfully.`,
+        queryType,
+        message:
+          `Batch executed: ${rows.length} bind row(s)${failed}, ${affectedRows} row(s) affected. ` +
+          commitMsg,
+        affectedRows,
+        batchErrors: batchErrors.length > 0 ? batchErrors : undefined,
         executionTime,
-        outputParams: Object.keys(outputValues).length > 0 ? outputValues : undefined,
+        transaction: commit ? 'committed' : 'pending',
         warnings: warnings.length > 0 ? warnings : undefined,
       };
     } catch (e) {
       const error = e instanceof Error ? e.message : String(e);
-      console.error(`Procedure execution failed: ${error}`);
+      console.error(`Batch execution failed: ${error}`);
+
+      // Oracle already undid the failed batch; an explicit transaction keeps the rest
+      if (inTransaction) {
+        return {
+          success: false,
+          queryType,
+          message: `Batch failed: ${error}. The transaction is still open.`,
+          error,
+          transaction: 'pending',
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
+      }
+
+      if (connection) {
+        try {
+          await this.connectionManager.endTransaction(connectionName, connection, 'rollback');
+        } catch {
+          // Ignore rollback errors
+        }
+        this.connectionManager.unpinConnection(connectionName, connection);
+      }
 
       return {
         success: false,
-        queryType: QueryType.PLSQL,
-        message: `Procedure '${procedureName}' failed: ${error}`,
+        queryType,
+        message: `Batch failed: ${error}`,
         error,
+        transaction: connection ? 'rolled_back' : undefined,
         warnings: warnings.length > 0 ? warnings : undefined,
       };
+    } finally {
+      if (connection) {
+        await this.connectionManager.releaseConnection(connectionName, connection);
+      }
     }
   }
 
-  async rollback(connectionName: string): Promise<QueryResult> {
+  /**
+   * Load a CSV file from the import directory into an existing table. Fields
+   * are converted using the table's column metadata; rows that fail
+   * conversion or are refused by the database go to a reject file while the
+   * rest are inserted in batches. A dry run only checks the conversion.
+   */
+  async importCsv(
+    connectionName: string,
+    table: TableInfo,
+    importOptions: ImportOptions,
+    options: ExecutionOptions = {}
+  ): Promise<ImportResult> {
+    let header: string[] | undefined;
+    let records: CsvRecord[];
+    let mappings: ColumnMapping[];
     try {
-      const connection = await this.connectionManager.getConnection(connectionName);
-      await connection.rollback();
-
-      return {
-        success: true,
-        queryType: QueryType.OTHER,
-        message: `Transaction rolled back on '${connectionName}'.`,
-      };
+      if (table.columns.length === 0) {
+        throw new Error(`Table ${importOptions.table} was not found or has no columns`);
+      }
+      const importDir = this.connectionManager.getServerConfig().importDir;
+      const path = resolveImportPath(importDir, importOptions.file);
+      records = readCsvFile(path, importOptions.delimiter);
+      if (importOptions.header !== false) {
+        header = records.shift()?.fields;
+        if (!header) {
+          throw new Error('The file is empty');
+        }
+      }
+      mappings = mapColumns(
+        importOptions.columns ?? header ?? table.columns.map(c => c.name),
+        table.columns,
+        importOptions.columnMap
+      );
     } catch (e) {
       const error = e instanceof Error ? e.message : String(e);
-
-      return {
-        success: false,
-        queryType: QueryType.OTHER,
-        message: `Rollback failed: ${error}`,
-        error,
-      };
+      return { success: false, message: `Import failed: ${error}`, error };
     }
+
+    const target = `"${table.owner}"."${table.name}"`;
+    const sql =
+      `INSERT INTO ${target} (${mappings.map(m => `"${m.column.name}"`).join(', ')}) ` +
+      `VALUES (${mappings.map((_, i) => `:${i + 1}`).join(', ')})`;
+
+    return this.audited(
+      options.tool ?? 'import_csv',
+      connectionName,
+      sql,
+      undefined,
+      () =>
+        this.runImport(connectionName, sql, header, records, mappings, importOptions, options),
+      result => ({
+        queryType: QueryType.INSERT,
+        rowsAffected: result.rowsInserted,
+        transaction: result.transaction,
+        dryRun: importOptions.dryRun || undefined,
+      })
+    );
   }
 
-  async commit(connectionName: string): Promise<QueryResult> {
+  private async runImport(
+    connectionName: string,
+    sql: string,
+    header: string[] | undefined,
+    records: CsvRecord[],
+    mappings: ColumnMapping[],
+    importOptions: ImportOptions,
+    options: ExecutionOptions
+  ): Promise<ImportResult> {
+    const file = importOptions.file;
+    const columns = mappings.map(m => m.column.name);
+    const base = { file, table: importOptions.table, columns, dryRun: importOptions.dryRun };
+
     const config = this.connectionManager.getConnectionConfig(connectionName);
-    if (config.mode === ConnectionMode.READONLY) {
+    if (config.mode === ConnectionMode.READONLY && !importOptions.dryRun) {
       return {
+        ...base,
         success: false,
-        queryType: QueryType.OTHER,
-        message: `Connection '${connectionName}' is READ ONLY. Cannot commit.`,
+        message: `Connection '${connectionName}' is configured as READ ONLY. Imports are not allowed.`,
         error: 'Connection is read-only',
       };
     }
 
-    try {
-      const connection = await this.connectionManager.getConnection(connectionName);
-      await connection.commit();
+    // Convert every record first so a dry run reports the same rejects
+    const rejects: { record: CsvRecord; error: string }[] = [];
+    const valid: { record: CsvRecord; values: (string | null)[] }[] = [];
+    const width = header?.length ?? mappings.length;
+    for (const record of records) {
+      try {
+        if (record.fields.length !== width) {
+          throw new Error(`expected ${width} field(s), found ${record.fields.length}`);
+        }
+        valid.push({
+          record,
+          values: mappings.map(m => convertField(record.fields[m.field], m, importOptions)),
+        });
+      } catch (e) {
+        rejects.push({ record, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    const listRejects = (): ImportRejectedRow[] | undefined =>
+      rejects.length > 0
+        ? rejects
+            .sort((a, b) => a.record.line - b.record.line)
+            .slice(0, MAX_LISTED_REJECTS)
+            .map(r => ({ line: r.record.line, error: r.error }))
+        : undefined;
 
+    if (importOptions.dryRun) {
       return {
+        ...base,
         success: true,
-        queryType: QueryType.OTHER,
-        message: `Transaction committed on '${connectionName}'.`,
+        message:
+          `Dry run: ${records.length} row(s) read, ${valid.length} would be inserted, ` +
+          `${rejects.length} rejected. Nothing was written.`,
+        rowsRead: records.length,
+        rowsInserted: 0,
+        rowsRejected: rejects.length,
+        rejects: listRejects(),
       };
-    } catch (e) {
-      const error = e instanceof Error ? e.message : String(e);
+    }
 
-      return {
-        success: false,
-        queryType: QueryType.OTHER,
-        message: `Commit failed: ${error}`,
-        error,
-      };
+    const queryType = QueryType.INSERT;
+    const { level: dangerLevel, warnings } = assessDangerLevel(sql, queryType);
+    const refused = (result: QueryResult): ImportResult => ({
+      ...base,
+      success: false,
+      message: result.message,
+      error: result.error,
+      warnings: result.warnings,
+      confirmationToken: result.confirmationToken,
+    });
+
+    const blocked = this.enforcePolicy(connectionName, sql, queryType, dangerLevel, warnings);
+    if (blocked) {
+      return refused(blocked);
+    }
+
+    let commit = importOptions.commit !== false;
+    const inTransaction = this.connectionManager.isExplicitTransaction(connectionName);
+    if (inTransaction) {
+      commit = false;
+    }
+
+    // The token covers the converted rows, so an edited file needs a new one
+    const held = this.holdForConfirmation(
+      connectionName,
+      sql,
+      valid.map(v => v.values),
+      queryType,
+      dangerLevel,
+      warnings,
+      options
+    );
+    if (held) {
+      return refused(held);
+    }
+
+    const { maxDmlRows } = this.connectionManager.getPolicy(connectionName);
+    const hadPendingWork = this.connectionManager.hasPinnedConnection(connectionName);
+    const batchSize = Math.max(1, importOptions.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE);
+    const bindTypes = mappings.map(m => m.bindType);
+
+    let connection: oracledb.Connection | undefined;
+    try {
+      connection = await this.connectionManager.getConnection(connectionName);
+
+      const startTime = Date.now();
+      await connection.execute(`SAVEPOINT ${BATCH_SAVEPOINT}`);
+
+      let rowsInserted = 0;
+      for (let start = 0; start < valid.length; start += batchSize) {
+        const batch = valid.slice(start, start + batchSize);
+        const { binds, bindDefs } = prepareBatchBinds(batch.map(v => v.values), bindTypes);
+        const result = await this.connectionManager.runCancellable(connection, options, () =>
+          connection!.executeMany(sql, binds, {
+            autoCommit: false,
+            batchErrors: true,
+            bindDefs,
+          })
+        );
+        rowsInserted += result.rowsAffected || 0;
+        for (const e of result.batchErrors || []) {
+          rejects.push({ record: batch[e.offset].record, error: e.message });
+        }
+      }
+
+      const executionTime = (Date.now() - startTime) / 1000;
+
+      if (maxDmlRows !== undefined && rowsInserted > maxDmlRows) {
+        // Undo only the import; earlier uncommitted work stays pending
+        await connection.execute(`ROLLBACK TO SAVEPOINT ${BATCH_SAVEPOINT}`);
+        if (!hadPendingWork) {
+          await this.connectionManager.endTransaction(connectionName, connection, 'rollback');
+        }
+        return {
+          ...base,
+          success: false,
+          message:
+            `Import would insert ${rowsInserted} row(s), more than the ${maxDmlRows} allowed by ` +
+            `the safety policy of connection '${connectionName}'. The import was rolled back.`,
+          error: 'Blocked by safety policy',
+          transaction: 'rolled_back',
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
+      }
+
+      let rejectFile: string | undefined;
+      if (rejects.length > 0) {
+        rejectFile = importOptions.rejectFile ?? `${file.replace(/\.csv$/i, '')}.rejects.csv`;
+        const importDir = this.connectionManager.getServerConfig().importDir;
+        writeRejectFile(resolveImportPath(importDir, rejectFile), header, rejects);
+      }
+
+      let commitMsg: string;
+      if (commit) {
+        await this.connectionManager.endTransaction(connectionName, connection, 'commit');
+        this.connectionManager.unpinConnection(connectionName, connection);
+        commitMsg = 'Changes committed.';
+      } else {
+        this.connectionManager.pinConnection(connectionName, connection);
+        commitMsg = inTransaction
+          ? 'Changes NOT committed (explicit transaction open - use commit or rollback).'
+          : 'Changes NOT committed (auto-commit disabled).';
+      }
+
+      return {
+        ...base,
+        success: true,
+        message:
+          `Imported ${rowsInserted} of ${records.length} row(s) into ${importOptions.table}` +
+          `${rejects.length > 0 ? `, ${rejects.length} rejected` : ''}. ${commitMsg}`,
+        rowsRead: records.length,
+        rowsInserted,
+        rowsRejected: rejects.length,
+        rejects: listRejects(),
+        rejectFile,
+        executionTime,
+        transaction: commit ? 'committed' : 'pending',
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      console.error(`CSV import failed: ${error}`);
+
+      // Undo the batches already inserted; earlier uncommitted work stays pending
+      if (connection) {
+        try {
+          await connection.execute(`ROLLBACK TO SAVEPOINT ${BATCH_SAVEPOINT}`);
+          if (!hadPendingWork) {
+            await this.connectionManager.endTransaction(connectionName, connection, 'rollback');
+            this.connectionManager.unpinConnection(connectionName, connection);
+          }
+        } catch {
+          // Ignore rollback errors
+        }
+      }
+
+      return {
+        ...base,
+        success: false,
+        message: `Import failed: ${error}. No rows were imported.`,
+        error,
+        transaction: connection ? 'rolled_back' : undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } finally {
+      if (connection) {
+        await this.connectionManager.releaseConnection(connectionName, connection);
+      }
+    }
+  }
+
+  /**
+   * Run a DML statement inside a savepoint, report the rows it would affect
+   * with before (and for UPDATE/MERGE, after) values, then roll back to the
+   * savepoint. Uncommitted work from earlier statements is kept.
+   */
+  async previewDml(
+    connectionName: string,
+    sql: string,
+    params?: BindValues,
+    sampleRows = DEFAULT_DRY_RUN_SAMPLE,
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    return this.audited(
+      options.tool ?? 'execute_dml',
+      connectionName,
+      sql,
+      params,
+      () => this.runDryRun(connectionName, sql, params, sampleRows, options),
+      result => ({ ...summarizeQueryResult(result), dryRun: true }),
+      { method: 'dry_run', sampleRows }
+    );
+  }
+
+  private async runDryRun(
+    connectionName: string,
+    sql: string,
+    params?: BindValues,
+    sampleRows = DEFAULT_DRY_RUN_SAMPLE,
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    const queryType = detectQueryType(sql);
+
+    const config = this.connectionManager.getConnectionConfig(connectionName);
+    if (config.mode === ConnectionMode.READONLY) {
+      return {
+        success: false,
+        queryType,
+        message: `Connection '${connectionName}' is configured as READ ONLY. DML operations are not allowed.`,
+        error: 'Connection is read-only',
+      };
+    }
+
+    // DDL and PL/SQL can commit implicitly, which a savepoint cannot undo
+    if (!DRY_RUN_TYPES.includes(queryType)) {
+      return {
+        success: false,
+        queryType,
+        message: 'Dry run supports INSERT, UPDATE, DELETE and MERGE statements only.',
+        error: 'Dry run not supported',
+      };
+    }
+
+    const { level: dangerLevel, warnings } = assessDangerLevel(sql, queryType);
+    const blocked = this.enforcePolicy(connectionName, sql, queryType, dangerLevel, warnings);
+    if (blocked) {
+      return blocked;
+    }
+
+    const target = queryType === QueryType.INSERT ? undefined : parseDmlTarget(sql);
+    if (queryType === QueryType.INSERT) {
+      warnings.push('ℹ️ INSERT dry runs report the row count only.');
+    } else if (!target) {
+      warnings.push(
+        'ℹ️ Could not determine the target rows of this statement; only the row count is reported.'
+      );
+    } else if (queryType === QueryType.MERGE) {
+      warnings.push('ℹ️ Rows MERGE would insert are not included in the sample.');
+    }
+
+    const hadPendingWork = this.connectionManager.hasPinnedConnection(connectionName);
+
+    let connection: oracledb.Connection | undefined;
+    let savepointSet = false;
+    try {
+      const { binds } = prepareBinds(params, true);
+
+      connection = await this.connectionManager.getConnection(connectionName);
+
+      const startTime = Date.now();
+
+      await connection.execute(`SAVEPOINT ${DRY_RUN_SAVEPOINT}`);
+      savepointSet = true;
+
+      const resultSets: ResultTable[] = [];
+
+      let before: ResultTable | undefined;
+      if (target) {
+        before = await this.fetchSample(
+          connectionName,
+          connection,
+          'Rows before',
+          buildAffectedRowsQuery(target),
+          selectBinds(params, [...(target.source?.binds || []), ...(target.condition?.binds || [])]),
+          sampleRows,
+          options
+        );
+        resultSets.push(before);
+      }
+
+      const result = await this.connectionManager.runCancellable(connection, options, () =>
+        connection!.execute(sql, binds, { autoCommit: false })
+      );
+      const affectedRows = result.rowsAffected || 0;
+
+      if (before && before.rows.length > 0 && queryType !== QueryType.DELETE) {
+        const rowids = before.rows.map(row => row[0]);
+        const placeholders = rowids.map((_, i) => `:${i + 1}`).join(', ');
+        resultSets.push(
+          await this.fetchSample(
+            connectionName,
+            connection,
+            'Rows after',
+            `SELECT t.ROWID AS ROW_ID, t.* FROM ${target!.table} t WHERE t.ROWID IN (${placeholders})`,
+            rowids,
+            sampleRows,
+            options
+          )
+        );
+      }
+
+      const executionTime = (Date.now() - startTime) / 1000;
+
+      if (before && affectedRows > before.rows.length) {
+        warnings.push(`ℹ️ Sample limited to ${before.rows.length} of ${affectedRows} affected row(s).`);
+      }
+
+      const { maxDmlRows } = this.connectionManager.getPolicy(connectionName);
+      if (maxDmlRows !== undefined && affectedRows > maxDmlRows) {
+        warnings.push(
+          `⚠️ ${affectedRows} row(s) exceed the safety policy limit of ${maxDmlRows}; executing this statement would be refused.`
+        );
+      }
+
+      return {
+        success: true,
+        queryType,
+        message: `Dry run: ${affectedRows} row(s) would be affected. All changes were rolled back.`,
+        affectedRows,
+        executionTime,
+        transaction: 'rolled_back',
+        resultSets,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      console.error(`DML dry run failed: ${error}`);
+
+      return {
+        success: false,
+        queryType,
+        message: `Dry run failed: ${error}`,
+        error,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } finally {
+      if (connection) {
+        try {
+          if (savepointSet) {
+            await connection.execute(`ROLLBACK TO SAVEPOINT ${DRY_RUN_SAVEPOINT}`);
+          }
+          if (!hadPendingWork) {
+            // Nothing else was pending: end the transaction to release locks
+            await this.connectionManager.endTransaction(connectionName, connection, 'rollback');
+          }
+        } catch (e) {
+          console.error(`Dry run rollback failed on '${connectionName}':`, e);
+        }
+        await this.connectionManager.releaseConnection(connectionName, connection);
+      }
+    }
+  }
+
+  async executePlsql(
+    connectionName: string,
+    plsql: string,
+    params?: BindValues,
+    commit = true,
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    return this.audited(
+      options.tool ?? 'execute_plsql',
+      connectionName,
+      plsql,
+      params,
+      () => this.runPlsql(connectionName, plsql, params, commit, options),
+      summarizeQueryResult,
+      { method: 'plsql', commit }
+    );
+  }
+
+  private async runPlsql(
+    connectionName: string,
+    plsql: string,
+    params?: BindValues,
+    commit = true,
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    const queryType = detectQueryType(plsql);
+
+    // Check connection mode
+    const config = this.connectionManager.getConnectionConfig(connectionName);
+    if (config.mode === ConnectionMode.READONLY) {
+      return {
+        success: false,
+        queryType,
+        message: `Connection '${connectionName}' is configured as READ ONLY. PL/SQL execution is not allowed.`,
+        error: 'Connection is read-only',
+      };
+    }
+
+    // Assess danger level
+    const { level: dangerLevel, warnings } = assessDangerLevel(plsql, queryType);
+
+    // CREATE PROCEDURE, VIEW etc. are exempt from blocked danger levels by default
+    const blocked = this.enforcePolicy(connectionName, plsql, queryType, dangerLevel, warnings);
+    if (blocked) {
+      return blocked;
+    }
+
+    if (this.connectionManager.isExplicitTransaction(connectionName)) {
+      commit = false;
+      if (queryType === QueryType.DDL) {
+        warnings.push('⚠️ DDL commits the open transaction implicitly, including earlier statements');
+      }
+    }
+
+    const held = this.holdForConfirmation(
+      connectionName,
+      plsql,
+      params,
+      queryType,
+      dangerLevel,
+      warnings,
+      options
+    );
+    if (held) {
+      return held;
+    }
+
+    let connection: oracledb.Connection | undefined;
+    let outputEnabled = false;
+    try {
+      const { binds, outKeys } = prepareBinds(params, true);
+
+      connection = await this.connectionManager.getConnection(connectionName);
+      if (options.captureOutput) {
+        await this.enableOutput(connection);
+        outputEnabled = true;
+      }
+
+      const startTime = Date.now();
+
+      const result = await this.connectionManager.runCancellable(connection, options, () =>
+        connection!.execute(plsql, binds, {
+          autoCommit: false,
+          // Returns implicit results as result sets, with their metadata
+          resultSet: true,
+          fetchTypeHandler: this.numbersAsStrings(options) ? fetchNumbersAsStrings : undefined,
+        })
+      );
+
+      const executionTime = (Date.now() - startTime) / 1000;
+
+      let output: string[] | undefined;
+      if (outputEnabled) {
+        outputEnabled = false;
+        output = await this.collectOutput(connectionName, connection, warnings, options);
+      }
+
+      const outputParams = await this.materializeOutputs(
+        connectionName,
+        collectOutBinds(result.outBinds, outKeys),
+        options
+      );
+      const resultSets = await this.readImplicitResults(
+        connectionName,
+        connection,
+        result.implicitResults,
+        this.defaultMaxRows,
+        options
+      );
+
+      if (commit) {
+        await this.connectionManager.endTransaction(connectionName, connection, 'commit');
+        this.connectionManager.unpinConnection(connectionName, connection);
+      } else {
+        this.connectionManager.pinConnection(connectionName, connection);
+      }
+
+      // Check for compilation errors (for CREATE statements)
+      let compilationStatus: string | undefined;
+      if (plsql.toUpperCase().includes('CREATE')) {
+        const match = plsql.match(
+          /CREATE\s+(OR\s+REPLACE\s+)?(PROCEDURE|FUNCTION|PACKAGE|TRIGGER|TYPE)\s+(\w+)/i
+        );
+        if (match) {
+          const objType = match[2].toUpperCase();
+          const objName = match[3].toUpperCase();
+
+          const statusResult = await connection.execute<[string]>(
+            'SELECT status FROM user_objects WHERE object_name = :name AND object_type = :type',
+            { name: objName, type: objType }
+          );
+
+          if (statusResult.rows && statusResult.rows.length > 0) {
+            compilationStatus = statusResult.rows[0][0];
+            if (compilationStatus !== 'VALID') {
+              // Get compilation errors
+              const errorsResult = await connection.execute<[number, number, string]>(
+                `SELECT line, position, text FROM user_errors 
+                 WHERE name = :name AND type = :type 
+                 ORDER BY sequence`,
+                { name: objName, type: objType }
+              );
+
+              if (errorsResult.rows && errorsResult.rows.length > 0) {
+                const errorDetails = errorsResult.rows
+                  .map((row: [number, number, string]) => `  Line ${row[0]}, Col ${row[1]}: ${row[2]}`)
+                  .join('\n');
+
+                return {
+                  success: false,
+                  queryType,
+                  message: `PL/SQL compiled with errors:\n${errorDetails}`,
+                  error: `Compilation failed for ${objType} ${objName}`,
+                  executionTime,
+                  transaction: commit ? 'committed' : 'pending',
+                  output,
+                };
+              }
+            }
+          }
+        }
+      }
+
+      const statusMsg = compilationStatus ? ` Object status: ${compilationStatus}.` : '';
+
+      return {
+        success: true,
+        queryType,
+        message: `PL/SQL executed successfully.${statusMsg}`,
+        executionTime,
+        outputParams,
+        resultSets: resultSets.length > 0 ? resultSets : undefined,
+        output,
+        transaction: commit ? 'committed' : 'pending',
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      console.error(`PL/SQL execution failed: ${error}`);
+
+      // Lines printed before the error often explain it
+      const output =
+        connection && outputEnabled
+          ? await this.collectOutputAfterError(connectionName, connection, warnings, options)
+          : undefined;
+
+      return {
+        success: false,
+        queryType,
+        message: `PL/SQL execution failed: ${error}`,
+        error,
+        output,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } finally {
+      if (connection) {
+        await this.connectionManager.releaseConnection(connectionName, connection);
+      }
+    }
+  }
+
+  /**
+   * Call a stored procedure or function. With its parameter metadata, IN
+   * values are converted to the declared types, OUT parameters are bound
+   * automatically and REF CURSOR outputs come back as result sets. Without
+   * metadata (e.g. through a synonym), values are bound as given and OUT
+   * parameters need their types in outParams.
+   */
+  async executeProcedure(
+    connectionName: string,
+    procedureName: string,
+    signature: ProcedureParam[],
+    call: ProcedureCallOptions = {},
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    let built: ProcedureCall;
+    try {
+      checkProcedureName(procedureName);
+      built =
+        signature.length > 0
+          ? buildProcedureCall(
+              procedureName,
+              selectOverload(procedureName, signature, Object.keys(call.params || {}), call.overload),
+              call.params
+            )
+          : buildUntypedProcedureCall(procedureName, call.params, call.outParams);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      return {
+        success: false,
+        queryType: QueryType.PLSQL,
+        message: `Cannot call '${procedureName}': ${error}`,
+        error: 'Invalid procedure arguments',
+      };
+    }
+
+    return this.audited(
+      options.tool ?? 'execute_procedure',
+      connectionName,
+      built.sql,
+      call.params,
+      () => this.runProcedure(connectionName, procedureName, built, call.maxRows, options),
+      summarizeQueryResult
+    );
+  }
+
+  private async runProcedure(
+    connectionName: string,
+    procedureName: string,
+    call: ProcedureCall,
+    maxRows?: number,
+    options: ExecutionOptions = {}
+  ): Promise<QueryResult> {
+    // A procedure can COMMIT internally, ending the read-only transaction and
+    // writing afterwards, so calls are refused outright on read-only connections
+    const config = this.connectionManager.getConnectionConfig(connectionName);
+    if (config.mode === ConnectionMode.READONLY) {
+      return {
+        success: false,
+        queryType: QueryType.PLSQL,
+        message: `Connection '${connectionName}' is configured as READ ONLY. Procedure execution is not allowed.`,
+        error: 'Connection is read-only',
+      };
+    }
+
+    const { level: dangerLevel, warnings } = assessDangerLevel(call.sql, QueryType.PLSQL);
+
+    const blocked = this.enforcePolicy(
+      connectionName,
+      call.sql,
+      QueryType.PLSQL,
+      dangerLevel,
+      warnings
+    );
+    if (blocked) {
+      return blocked;
+    }
+
+    const kind = call.isFunction ? 'Function' : 'Procedure';
+    let connection: oracledb.Connection | undefined;
+    let outputEnabled = false;
+    try {
+      connection = await this.connectionManager.getConnection(connectionName);
+      if (options.captureOutput) {
+        await this.enableOutput(connection);
+        outputEnabled = true;
+      }
+
+      const startTime = Date.now();
+
+      const result = await this.connectionManager.runCancellable(connection, options, () =>
+        connection!.execute(call.sql, call.binds, {
+          resultSet: true,
+          fetchTypeHandler: this.numbersAsStrings(options) ? fetchNumbersAsStrings : undefined,
+        })
+      );
+
+      const executionTime = (Date.now() - startTime) / 1000;
+
+      // Read cursors and LOB OUT values before the commit can free them
+      const outBinds = (result.outBinds || {}) as Record<string, unknown>;
+      const outputValues: Record<string, unknown> = {};
+      const resultSets: ResultTable[] = [];
+      for (const [bindName, outName] of Object.entries(call.outputs)) {
+        const value = outBinds[bindName];
+        if (call.cursors.includes(outName)) {
+          if (value) {
+            resultSets.push(
+              await this.readCursor(
+                connectionName,
+                connection,
+                `${outName} (REF CURSOR)`,
+                value as oracledb.ResultSet<unknown[]>,
+                maxRows || this.defaultMaxRows,
+                options
+              )
+            );
+          } else {
+            outputValues[outName] = null;
+          }
+        } else {
+          outputValues[outName] = value;
+        }
+      }
+      resultSets.push(
+        ...(await this.readImplicitResults(
+          connectionName,
+          connection,
+          result.implicitResults,
+          maxRows || this.defaultMaxRows,
+          options
+        ))
+      );
+      const outputParams = await this.materializeOutputs(
+        connectionName,
+        Object.keys(outputValues).length > 0 ? outputValues : undefined,
+        options
+      );
+      let output: string[] | undefined;
+      if (outputEnabled) {
+        outputEnabled = false;
+        output = await this.collectOutput(connectionName, connection, warnings, options);
+      }
+
+      // Inside begin_transaction, the call waits for an explicit commit
+      const inTransaction = this.connectionManager.isExplicitTransaction(connectionName);
+      if (inTransaction) {
+        this.connectionManager.pinConnection(connectionName, connection);
+      } else {
+        await this.connectionManager.endTransaction(connectionName, connection, 'commit');
+        this.connectionManager.unpinConnection(connectionName, connection);
+      }
+
+      return {
+        success: true,
+        queryType: QueryType.PLSQL,
+        message: `${kind} '${procedureName}' executed successfully.${
+          inTransaction ? ' Changes NOT committed (explicit transaction open).' : ''
+        }`,
+        executionTime,
+        outputParams,
+        resultSets: resultSets.length > 0 ? resultSets : undefined,
+        output,
+        transaction: inTransaction ? 'pending' : 'committed',
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      console.error(`Procedure execution failed: ${error}`);
+
+      const output =
+        connection && outputEnabled
+          ? await this.collectOutputAfterError(connectionName, connection, warnings, options)
+          : undefined;
+
+      return {
+        success: false,
+        queryType: QueryType.PLSQL,
+        message: `${kind} '${procedureName}' failed: ${error}`,
+        error,
+        output,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } finally {
+      if (connection) {
+        await this.connectionManager.releaseConnection(connectionName, connection);
+      }
+    }
+  }
+
+  async rollback(connectionName: string): Promise<QueryResult> {
+    return this.audited(
+      'rollback',
+      connectionName,
+      'ROLLBACK',
+      undefined,
+      () => this.runRollback(connectionName),
+      summarizeQueryResult
+    );
+  }
+
+  private async runRollback(connectionName: string): Promise<QueryResult> {
+    try {
+      await this.connectionManager.withConnection(connectionName, async connection => {
+        await this.connectionManager.endTransaction(connectionName, connection, 'rollback');
+        this.connectionManager.unpinConnection(connectionName, connection);
+      });
+
+      return {
+        success: true,
+        queryType: QueryType.OTHER,
+        message: `Transaction rolled back on '${connectionName}'.`,
+        transaction: 'rolled_back',
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `Rollback failed: ${error}`,
+        error,
+      };
+    }
+  }
+
+  async commit(connectionName: string): Promise<QueryResult> {
+    return this.audited(
+      'commit',
+      connectionName,
+      'COMMIT',
+      undefined,
+      () => this.runCommit(connectionName),
+      summarizeQueryResult
+    );
+  }
+
+  private async runCommit(connectionName: string): Promise<QueryResult> {
+    const config = this.connectionManager.getConnectionConfig(connectionName);
+    if (config.mode === ConnectionMode.READONLY) {
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `Connection '${connectionName}' is READ ONLY. Cannot commit.`,
+        error: 'Connection is read-only',
+      };
+    }
+
+    try {
+      await this.connectionManager.withConnection(connectionName, async connection => {
+        await this.connectionManager.endTransaction(connectionName, connection, 'commit');
+        this.connectionManager.unpinConnection(connectionName, connection);
+      });
+
+      return {
+        success: true,
+        queryType: QueryType.OTHER,
+        message: `Transaction committed on '${connectionName}'.`,
+        transaction: 'committed',
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `Commit failed: ${error}`,
+        error,
+      };
+    }
+  }
+
+  /**
+   * Open an explicit transaction. Until commit or rollback, DML, PL/SQL and
+   * procedure calls on the connection share one session and never commit
+   * on their own.
+   */
+  async beginTransaction(connectionName: string): Promise<QueryResult> {
+    const config = this.connectionManager.getConnectionConfig(connectionName);
+    if (config.mode === ConnectionMode.READONLY) {
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `Connection '${connectionName}' is READ ONLY. Cannot begin a transaction.`,
+        error: 'Connection is read-only',
+      };
+    }
+
+    if (this.connectionManager.isExplicitTransaction(connectionName)) {
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `A transaction is already open on '${connectionName}'. Commit or roll it back first.`,
+        error: 'Transaction already open',
+      };
+    }
+
+    try {
+      const pending = this.connectionManager.hasPinnedConnection(connectionName);
+      await this.connectionManager.withConnection(connectionName, async connection => {
+        this.connectionManager.pinConnection(connectionName, connection, true);
+      });
+
+      const timeout = this.connectionManager.getTransactionIdleTimeout(connectionName);
+      return {
+        success: true,
+        queryType: QueryType.OTHER,
+        message:
+          `Transaction started on '${connectionName}'.` +
+          (pending ? ' Uncommitted changes from earlier statements are part of it.' : '') +
+          (timeout > 0 ? ` It is rolled back automatically after ${timeout}s without activity.` : ''),
+        transaction: 'pending',
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `Failed to begin transaction: ${error}`,
+        error,
+      };
+    }
+  }
+
+  async setSavepoint(connectionName: string, savepoint: string): Promise<QueryResult> {
+    return this.audited(
+      'savepoint',
+      connectionName,
+      `SAVEPOINT ${savepoint}`,
+      undefined,
+      () => this.runSavepoint(connectionName, savepoint, 'set'),
+      summarizeQueryResult
+    );
+  }
+
+  async rollbackToSavepoint(connectionName: string, savepoint: string): Promise<QueryResult> {
+    return this.audited(
+      'rollback_to_savepoint',
+      connectionName,
+      `ROLLBACK TO SAVEPOINT ${savepoint}`,
+      undefined,
+      () => this.runSavepoint(connectionName, savepoint, 'rollback'),
+      summarizeQueryResult
+    );
+  }
+
+  private async runSavepoint(
+    connectionName: string,
+    savepoint: string,
+    action: 'set' | 'rollback'
+  ): Promise<QueryResult> {
+    const transaction = this.connectionManager.getTransaction(connectionName);
+    if (!transaction) {
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `No open transaction on '${connectionName}'. Use begin_transaction first.`,
+        error: 'No open transaction',
+      };
+    }
+
+    let name: string;
+    try {
+      name = toIdentifier(savepoint);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      return { success: false, queryType: QueryType.OTHER, message: error, error };
+    }
+
+    const index = transaction.savepoints.findIndex(sp => sp.name === name);
+    if (action === 'rollback' && index < 0) {
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `Savepoint ${name} does not exist on '${connectionName}'. Known savepoints: ${
+          transaction.savepoints.map(sp => sp.name).join(', ') || 'none'
+        }.`,
+        error: 'Unknown savepoint',
+      };
+    }
+
+    try {
+      await this.connectionManager.withConnection(connectionName, async connection => {
+        await connection.execute(
+          action === 'set' ? `SAVEPOINT ${name}` : `ROLLBACK TO SAVEPOINT ${name}`
+        );
+      });
+
+      if (action === 'set') {
+        // Reusing a name moves the savepoint, as in Oracle
+        if (index >= 0) {
+          transaction.savepoints.splice(index, 1);
+        }
+        transaction.savepoints.push({ name, statementCount: transaction.statements.length });
+        return {
+          success: true,
+          queryType: QueryType.OTHER,
+          message: `Savepoint ${name} set on '${connectionName}'.`,
+        };
+      }
+
+      // Statements and savepoints after the savepoint are undone with it
+      const discarded = transaction.statements.length - transaction.savepoints[index].statementCount;
+      transaction.statements.splice(transaction.savepoints[index].statementCount);
+      transaction.savepoints.splice(index + 1);
+      return {
+        success: true,
+        queryType: QueryType.OTHER,
+        message: `Rolled back to savepoint ${name} on '${connectionName}' (${discarded} statement(s) undone). The transaction is still open.`,
+      };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+
+      return {
+        success: false,
+        queryType: QueryType.OTHER,
+        message: `${action === 'set' ? 'Savepoint' : 'Rollback to savepoint'} failed: ${error}`,
+        error,
+      };
+    }
+  }
+
+  /**
+   * Report the connection's open transaction, if any. Checking the status
+   * does not count as activity for the idle rollback.
+   */
+  async transactionStatus(connectionName: string): Promise<TransactionStatus> {
+    const idleTimeout = this.connectionManager.getTransactionIdleTimeout(connectionName);
+    const transaction = this.connectionManager.getTransaction(connectionName);
+    const connection = this.connectionManager.borrowPinnedConnection(connectionName);
+    if (!transaction || !connection) {
+      return {
+        connection: connectionName,
+        open: false,
+        hasUncommittedWork: false,
+        idleTimeout,
+        lastAutoRollback: this.connectionManager.getLastAutoRollback(connectionName),
+      };
+    }
+
+    // The transaction ID is only assigned once the session has changed data
+    let transactionId: string | undefined;
+    try {
+      const result = await connection.execute<[string | null]>(
+        'SELECT DBMS_TRANSACTION.LOCAL_TRANSACTION_ID FROM dual'
+      );
+      transactionId = result.rows?.[0]?.[0] ?? undefined;
+    } finally {
+      this.connectionManager.returnPinnedConnection(connectionName, connection);
+    }
+
+    const now = Date.now();
+    return {
+      connection: connectionName,
+      open: true,
+      hasUncommittedWork: transactionId !== undefined,
+      transactionId,
+      transaction,
+      durationSeconds: Math.round((now - Date.parse(transaction.startedAt)) / 1000),
+      idleSeconds: Math.round((now - Date.parse(transaction.lastActivityAt)) / 1000),
+      idleTimeout,
+    };
+  }
+
+  // ==========================================================================
+  // Auditing
+  // ==========================================================================
+
+  /**
+   * Run a statement and record its outcome in the audit log and the query
+   * history. Statements refused before reaching the database are recorded
+   * as failures too.
+   */
+  private async audited<T extends { success: boolean; error?: string }>(
+    tool: string,
+    connectionName: string,
+    sql: string,
+    params: BindValues | undefined,
+    run: () => Promise<T>,
+    summarize: (result: T) => AuditSummary,
+    rerun?: RerunSpec
+  ): Promise<T> {
+    const startTime = Date.now();
+    let result: T | undefined;
+    let thrown: string | undefined;
+    try {
+      result = await run();
+      return result;
+    } catch (e) {
+      thrown = e instanceof Error ? e.message : String(e);
+      throw e;
+    } finally {
+      const summary = result ? summarize(result) : {};
+      // Track what the open transaction holds for transaction_status
+      const transaction = this.connectionManager.getTransaction(connectionName);
+      if (transaction && result?.success && summary.transaction === 'pending' && !summary.dryRun) {
+        transaction.statements.push({
+          timestamp: new Date().toISOString(),
+          tool,
+          sql,
+          affectedRows: summary.rowsAffected,
+        });
+      }
+      const queryType = summary.queryType ?? detectQueryType(sql);
+      let dbUser = '';
+      try {
+        dbUser = this.connectionManager.getConnectionConfig(connectionName).username;
+      } catch {
+        // Unknown connection - the error is recorded below
+      }
+
+      const timestamp = new Date(startTime).toISOString();
+      const durationMs = Date.now() - startTime;
+      const success = result?.success ?? false;
+      const error = result?.error ?? thrown;
+
+      this.auditLog.record(
+        {
+          timestamp,
+          connection: connectionName,
+          dbUser,
+          tool,
+          sql,
+          ...summary,
+          queryType,
+          dangerLevel: assessDangerLevel(sql, queryType).level,
+          durationMs,
+          success,
+          error,
+        },
+        params
+      );
+      this.history.add({
+        timestamp,
+        connection: connectionName,
+        tool,
+        sql,
+        binds: params,
+        queryType,
+        success,
+        error,
+        rowCount: summary.rowsReturned,
+        affectedRows: summary.rowsAffected,
+        durationMs,
+        rerun,
+      });
+    }
+  }
+
+  // ==========================================================================
+  // DBMS_OUTPUT
+  // ==========================================================================
+
+  private async enableOutput(connection: oracledb.Connection): Promise<void> {
+    // A NULL buffer size is unlimited; the line cap applies when reading
+    await connection.execute('BEGIN DBMS_OUTPUT.ENABLE(NULL); END;');
+  }
+
+  /**
+   * Drain the DBMS_OUTPUT buffer with GET_LINES, then disable it. DISABLE
+   * also discards lines past the cap, so they cannot surface in a later
+   * call on the same pooled session.
+   */
+  private async collectOutput(
+    connectionName: string,
+    connection: oracledb.Connection,
+    warnings: string[],
+    options: ExecutionOptions
+  ): Promise<string[]> {
+    const maxLines =
+      options.maxOutputLines ?? this.connectionManager.getServerConfig().maxOutputLines;
+    const lines: string[] = [];
+    try {
+      while (lines.length <= maxLines) {
+        const requested = Math.min(OUTPUT_CHUNK_LINES, maxLines + 1 - lines.length);
+        const result = await connection.execute(
+          'BEGIN DBMS_OUTPUT.GET_LINES(:lines, :numLines); END;',
+          {
+            lines: {
+              dir: oracledb.BIND_OUT,
+              type: oracledb.STRING,
+              maxSize: MAX_OUTPUT_LINE,
+              maxArraySize: requested,
+            },
+            numLines: { dir: oracledb.BIND_INOUT, type: oracledb.NUMBER, val: requested },
+          }
+        );
+        const outBinds = result.outBinds as { lines: (string | null)[]; numLines: number };
+        lines.push(...outBinds.lines.slice(0, outBinds.numLines).map(line => line ?? ''));
+        if (outBinds.numLines < requested) {
+          break;
+        }
+      }
+    } finally {
+      try {
+        await connection.execute('BEGIN DBMS_OUTPUT.DISABLE; END;');
+      } catch (e) {
+        console.error('Failed to disable DBMS_OUTPUT:', e);
+      }
+    }
+
+    if (lines.length > maxLines) {
+      warnings.push(`⚠️ DBMS_OUTPUT truncated to the first ${maxLines} lines`);
+    }
+    return this.masker.maskFreeText(connectionName, lines.slice(0, maxLines));
+  }
+
+  /**
+   * Read the output of a call that failed. The session may be unusable, so
+   * errors here are logged rather than replacing the original failure.
+   */
+  private async collectOutputAfterError(
+    connectionName: string,
+    connection: oracledb.Connection,
+    warnings: string[],
+    options: ExecutionOptions
+  ): Promise<string[] | undefined> {
+    try {
+      return await this.collectOutput(connectionName, connection, warnings, options);
+    } catch (e) {
+      console.error('Failed to read DBMS_OUTPUT:', e);
+      return undefined;
+    }
+  }
+
+  // ==========================================================================
+  // Result Materialization
+  // ==========================================================================
+
+  /**
+   * Refuse statements the connection's safety policy does not permit.
+   * Returns undefined when the statement may run.
+   */
+  private enforcePolicy(
+    connectionName: string,
+    sql: string,
+    queryType: QueryType,
+    dangerLevel: DangerLevel,
+    warnings: string[]
+  ): QueryResult | undefined {
+    const config = this.connectionManager.getConnectionConfig(connectionName);
+    const policy = this.connectionManager.getPolicy(connectionName);
+    const reason = checkPolicy(policy, sql, queryType, dangerLevel, config.username);
+    if (!reason) {
+      return undefined;
+    }
+
+    return {
+      success: false,
+      queryType,
+      message: [
+        `Blocked by the safety policy of connection '${connectionName}': ${reason}.`,
+        ...warnings,
+      ].join(' '),
+      error: 'Blocked by safety policy',
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
+  /**
+   * Hold statements at or above the connection's confirmation level until
+   * they are resubmitted with the token issued here. Returns undefined when
+   * the statement may run.
+   */
+  private holdForConfirmation(
+    connectionName: string,
+    sql: string,
+    params: BindValues | undefined,
+    queryType: QueryType,
+    dangerLevel: DangerLevel,
+    warnings: string[],
+    options: ExecutionOptions
+  ): QueryResult | undefined {
+    const config = this.connectionManager.getConnectionConfig(connectionName);
+    // Blocked levels never get here; CRITICAL only when exempt, e.g. CREATE PROCEDURE
+    const needsConfirmation =
+      dangerLevel === DangerLevel.HIGH ||
+      dangerLevel === DangerLevel.CRITICAL ||
+      (dangerLevel === DangerLevel.MODERATE && config.confirmationLevel === 'moderate');
+    if (!needsConfirmation) {
+      return undefined;
+    }
+    return this.requireConfirmation(
+      connectionName,
+      sql,
+      params,
+      queryType,
+      `${dangerLevel} risk`,
+      warnings,
+      options
+    );
+  }
+
+  /**
+   * Let the statement run if it carries a valid token for it; otherwise
+   * issue one and return the hold.
+   */
+  private requireConfirmation(
+    connectionName: string,
+    sql: string,
+    params: BindValues | undefined,
+    queryType: QueryType,
+    reason: string,
+    warnings: string[],
+    options: ExecutionOptions
+  ): QueryResult | undefined {
+    if (options.confirmationToken) {
+      if (this.confirmations.consume(options.confirmationToken, connectionName, sql, params)) {
+        return undefined;
+      }
+      warnings.push(
+        '⚠️ The confirmation token is invalid, expired, already used or was issued for a different statement. A new token was issued.'
+      );
+    }
+
+    const token = this.confirmations.issue(connectionName, sql, params);
+    return {
+      success: false,
+      queryType,
+      message:
+        `Confirmation required (${reason}). Review the warnings, then resubmit the same ` +
+        `statement and binds with confirmation_token '${token}' within ${this.confirmations.ttl} seconds.`,
+      error: 'Confirmation required',
+      warnings: warnings.length > 0 ? warnings : undefined,
+      confirmationToken: token,
+    };
+  }
+
+  /**
+   * Explain a SELECT before it runs when the connection's policy has a cost
+   * guard. Returns a refusal, or a confirmation hold, when the plan exceeds
+   * one of the guard's limits. A query that cannot be explained is refused
+   * by a blocking guard and otherwise runs with a warning.
+   */
+  private async enforceCostGuard(
+    connectionName: string,
+    connection: oracledb.Connection,
+    sql: string,
+    params: BindValues | undefined,
+    warnings: string[],
+    options: ExecutionOptions
+  ): Promise<QueryResult | undefined> {
+    const guard = this.connectionManager.getPolicy(connectionName).costGuard;
+    if (!guard) {
+      return undefined;
+    }
+
+    // A read-only transaction refuses the PLAN_TABLE insert, so read-only
+    // sessions step out of it as explain_plan does
+    const readOnly =
+      this.connectionManager.getConnectionConfig(connectionName).mode === ConnectionMode.READONLY;
+
+    let estimate: PlanEstimate | undefined;
+    let explainError: string | undefined;
+    try {
+      estimate = await this.connectionManager.runCancellable(connection, options, async () => {
+        if (readOnly) {
+          await connection.rollback();
+        } else {
+          await connection.execute(`SAVEPOINT ${COST_GUARD_SAVEPOINT}`);
+        }
+        return this.estimatePlan(connection, sql);
+      });
+    } catch (e) {
+      if (options.signal?.aborted) {
+        throw e;
+      }
+      // E.g. no PLAN_TABLE, missing privileges on a view's tables, or a
+      // statement EXPLAIN PLAN does not accept
+      explainError = e instanceof Error ? e.message : String(e);
+      console.error(`Cost guard could not explain the query: ${explainError}`);
+    } finally {
+      await this.endPlanEstimate(connectionName, connection, readOnly);
+    }
+
+    if (!estimate) {
+      if (guard.action === 'block') {
+        return {
+          success: false,
+          queryType: QueryType.SELECT,
+          message:
+            `Blocked by the cost guard of connection '${connectionName}': ` +
+            `the query could not be explained (${explainError}).`,
+          error: 'Blocked by cost guard',
+        };
+      }
+      warnings.push(`⚠️ Cost guard skipped: EXPLAIN PLAN failed (${explainError})`);
+      return undefined;
+    }
+    const exceeded = checkCostGuard(guard, estimate);
+    if (exceeded.length === 0) {
+      return undefined;
+    }
+
+    const reason = exceeded.join('; ');
+    if (guard.action === 'block') {
+      return {
+        success: false,
+        queryType: QueryType.SELECT,
+        message:
+          `Blocked by the cost guard of connection '${connectionName}': ${reason}. ` +
+          'Add selective predicates or check the plan with explain_plan.',
+        error: 'Blocked by cost guard',
+      };
+    }
+
+    warnings.push(`⚠️ Cost guard: ${reason}`);
+    return this.requireConfirmation(
+      connectionName,
+      sql,
+      params,
+      QueryType.SELECT,
+      'expensive query plan',
+      warnings,
+      options
+    );
+  }
+
+  /**
+   * Explain a query on the session that will run it and read the estimates
+   * the cost guard checks, including the row counts of fully scanned tables
+   * from their statistics. EXPLAIN PLAN takes no bind values; placeholders
+   * stay in the text and are explained as unknown values.
+   */
+  private async estimatePlan(connection: oracledb.Connection, sql: string): Promise<PlanEstimate> {
+    const statementId = 'MCP_' + Math.random().toString(36).substring(2, 12).toUpperCase();
+
+    await connection.execute(`EXPLAIN PLAN SET STATEMENT_ID = '${statementId}' FOR ${sql}`);
+
+    type PlanRow = [number, string, string | null, string | null, string | null, number, number];
+    const plan = await connection.execute<PlanRow>(
+      `SELECT id, operation, options, object_owner, object_name, cost, cardinality
+       FROM plan_table
+       WHERE statement_id = :statementId
+       ORDER BY id`,
+      { statementId }
+    );
+    const rows = plan.rows || [];
+    const root = rows.find(row => row[0] === 0);
+
+    const scanned = new Map<string, [string, string]>();
+    for (const [, operation, scanOptions, owner, name] of rows) {
+      const isTableScan = operation === 'TABLE ACCESS' || operation === 'MAT_VIEW ACCESS';
+      if (isTableScan && scanOptions?.includes('FULL') && owner && name) {
+        scanned.set(`${owner}.${name}`, [owner, name]);
+      }
+    }
+
+    const fullScans: PlanEstimate['fullScans'] = [];
+    for (const [table, [owner, name]] of scanned) {
+      const stats = await connection.execute<[number | null]>(
+        'SELECT num_rows FROM all_tables WHERE owner = :owner AND table_name = :name',
+        { owner, name }
+      );
+      fullScans.push({ table, rows: stats.rows?.[0]?.[0] ?? undefined });
+    }
+
+    return {
+      cost: root?.[5] ?? undefined,
+      cardinality: root?.[6] ?? undefined,
+      fullScans,
+    };
+  }
+
+  /**
+   * Roll the plan rows back after the cost guard, so open transactions are
+   * kept, and put read-only sessions back into their read-only transaction.
+   * A session that cannot be restored is dropped rather than used for the
+   * query.
+   */
+  private async endPlanEstimate(
+    connectionName: string,
+    connection: oracledb.Connection,
+    readOnly: boolean
+  ): Promise<void> {
+    try {
+      if (readOnly) {
+        await this.connectionManager.restoreReadOnly(connection);
+      } else {
+        await connection.execute(`ROLLBACK TO SAVEPOINT ${COST_GUARD_SAVEPOINT}`);
+      }
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      console.error(`Cost guard could not restore the session on '${connectionName}': ${error}`);
+      await this.connectionManager.discardConnection(connectionName, connection);
+      throw new Error(
+        `Could not restore the session after the cost guard's plan check: ${error}. ` +
+          'The session was closed and any uncommitted work on it rolled back'
+      );
+    }
+  }
+
+  private async fetchSample(
+    connectionName: string,
+    connection: oracledb.Connection,
+    title: string,
+    sql: string,
+    params: BindValues,
+    maxRows: number,
+    options: ExecutionOptions
+  ): Promise<ResultTable> {
+    const { binds } = prepareBinds(params);
+    const result = await this.connectionManager.runCancellable(connection, options, () =>
+      connection.execute<unknown[]>(sql, binds, {
+        maxRows,
+        outFormat: oracledb.OUT_FORMAT_ARRAY,
+        fetchTypeHandler: this.numbersAsStrings(options) ? fetchNumbersAsStrings : undefined,
+      })
+    );
+
+    const columns = describeColumns(result.metaData || []);
+    const masker = this.resultMasker(connectionName, columns, sql);
+    return {
+      title,
+      columns,
+      rows: await this.materializeRows(result.rows || [], options, masker),
+    };
+  }
+
+  private numbersAsStrings(options: ExecutionOptions): boolean {
+    return options.numbersAsStrings ?? this.connectionManager.getServerConfig().numbersAsStrings;
+  }
+
+  private lobOptions(options: ExecutionOptions): LobOptions {
+    return { ...this.connectionManager.getServerConfig().lob, ...options.lob };
+  }
+
+  /**
+   * Read up to maxRows rows from a cursor returned by PL/SQL, then close it.
+   */
+  private async readCursor(
+    connectionName: string,
+    connection: oracledb.Connection,
+    title: string,
+    resultSet: oracledb.ResultSet<unknown[]>,
+    maxRows: number,
+    options: ExecutionOptions
+  ): Promise<ResultTable> {
+    try {
+      const rows = await this.connectionManager.runCancellable(connection, options, () =>
+        resultSet.getRows(maxRows + 1)
+      );
+      const truncated = rows.length > maxRows;
+      const columns = describeColumns(resultSet.metaData);
+      const masker = this.resultMasker(connectionName, columns);
+      return {
+        title: truncated ? `${title}, first ${maxRows} rows` : title,
+        columns,
+        rows: await this.materializeRows(rows.slice(0, maxRows), options, masker),
+      };
+    } finally {
+      await resultSet.close();
+    }
+  }
+
+  /**
+   * Read the result sets a PL/SQL call returned with DBMS_SQL.RETURN_RESULT.
+   * If one fails, the rest are closed so they do not hold open cursors.
+   */
+  private async readImplicitResults(
+    connectionName: string,
+    connection: oracledb.Connection,
+    implicitResults: unknown[] | undefined,
+    maxRows: number,
+    options: ExecutionOptions
+  ): Promise<ResultTable[]> {
+    const resultSets = (implicitResults || []) as oracledb.ResultSet<unknown[]>[];
+    const tables: ResultTable[] = [];
+    for (let i = 0; i < resultSets.length; i++) {
+      try {
+        tables.push(
+          await this.readCursor(
+            connectionName,
+            connection,
+            `Implicit result ${i + 1}`,
+            resultSets[i],
+            maxRows,
+            options
+          )
+        );
+      } catch (e) {
+        await Promise.allSettled(resultSets.slice(i + 1).map(resultSet => resultSet.close()));
+        throw e;
+      }
+    }
+    return tables;
+  }
+
+  /**
+   * Masking for a result set's columns, marking the columns it masks as a
+   * whole. Without the SQL the source tables are unknown, so table and
+   * schema rules match on column names alone.
+   */
+  private resultMasker(
+    connectionName: string,
+    columns: ResultColumn[],
+    sql?: string
+  ): RowMasker | undefined {
+    if (!this.masker.enabled) {
+      return undefined;
+    }
+    const { username } = this.connectionManager.getConnectionConfig(connectionName);
+    const masker = this.masker.forResult(
+      connectionName,
+      username,
+      columns.map(column => column.name),
+      sql
+    );
+    masker?.columns.forEach((strategy, i) => {
+      if (strategy) {
+        columns[i].masked = strategy;
+      }
+    });
+    return masker;
+  }
+
+  /**
+   * Turn driver values that depend on the session (LOB locators) into plain
+   * values, then apply masking. Runs before the session is released.
+   */
+  private async materializeRows(
+    rows: unknown[][],
+    options: ExecutionOptions,
+    masker?: RowMasker
+  ): Promise<unknown[][]> {
+    const lobOptions = this.lobOptions(options);
+    const materialized: unknown[][] = [];
+    for (const row of rows) {
+      const values: unknown[] = [];
+      for (const value of row) {
+        values.push(await materializeValue(value, lobOptions));
+      }
+      materialized.push(values);
+    }
+    return masker ? masker.maskRows(materialized) : materialized;
+  }
+
+  private async materializeOutputs(
+    connectionName: string,
+    outputParams: Record<string, unknown> | undefined,
+    options: ExecutionOptions
+  ): Promise<Record<string, unknown> | undefined> {
+    if (!outputParams) {
+      return undefined;
+    }
+
+    const lobOptions = this.lobOptions(options);
+    const values: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(outputParams)) {
+      values[name] = await materializeValue(value, lobOptions);
+    }
+    if (!this.masker.enabled) {
+      return values;
     }
+    const { username } = this.connectionManager.getConnectionConfig(connectionName);
+    return this.masker.maskRecord(connectionName, username, values);
   }
 }
 
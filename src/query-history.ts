@@ -0,0 +1,162 @@
+/**
+ * Query History for Oracle MCP Server
+ *
+ * Keeps recent statements per connection so they can be looked up and run
+ * again. The history lives in memory and can optionally be saved to a file
+ * so it survives restarts. Entries are redacted like the audit log; the
+ * original statements are kept in memory only, for reruns.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { redactBinds, redactSql } from './audit-log.js';
+import { AuditOptions, BindValues, HistoryEntry, HistoryFilter, HistoryOptions } from './types.js';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+function parseTime(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`${name} must be an ISO 8601 timestamp`);
+  }
+  return time;
+}
+
+export interface OriginalStatement {
+  sql: string;
+  binds?: BindValues;
+}
+
+export class QueryHistory {
+  private options: HistoryOptions;
+  private redaction: AuditOptions;
+  private entries: Map<string, HistoryEntry[]> = new Map();
+  // Unredacted statements by entry id; never saved or returned by searches
+  private originals: Map<number, OriginalStatement> = new Map();
+  private nextId = 1;
+
+  constructor(options: HistoryOptions, redaction: AuditOptions) {
+    this.options = options;
+    this.redaction = redaction;
+    this.load();
+  }
+
+  add(entry: Omit<HistoryEntry, 'id'>): HistoryEntry {
+    const recorded = this.redact({ id: this.nextId++, ...entry });
+    this.originals.set(recorded.id, { sql: entry.sql, binds: entry.binds });
+
+    const list = this.entries.get(entry.connection) || [];
+    list.push(recorded);
+    if (list.length > this.options.maxEntries) {
+      for (const dropped of list.splice(0, list.length - this.options.maxEntries)) {
+        this.originals.delete(dropped.id);
+      }
+    }
+    this.entries.set(entry.connection, list);
+
+    this.save();
+    return recorded;
+  }
+
+  get(id: number): HistoryEntry | undefined {
+    for (const list of this.entries.values()) {
+      const entry = list.find(e => e.id === id);
+      if (entry) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * SQL and binds of an entry as they were run. Entries loaded from the
+   * history file only have their redacted form.
+   */
+  original(id: number): OriginalStatement | undefined {
+    const original = this.originals.get(id);
+    if (original) {
+      return original;
+    }
+    const entry = this.get(id);
+    return entry && !entry.redacted ? { sql: entry.sql, binds: entry.binds } : undefined;
+  }
+
+  /**
+   * Return matching entries, newest first, along with the number that
+   * matched before the limit was applied.
+   */
+  search(filter: HistoryFilter = {}): { entries: HistoryEntry[]; total: number } {
+    const since = parseTime(filter.since, 'since');
+    const until = parseTime(filter.until, 'until');
+    const text = filter.text?.toLowerCase();
+
+    const candidates = filter.connection
+      ? this.entries.get(filter.connection) || []
+      : Array.from(this.entries.values()).flat();
+
+    const matches = candidates
+      .filter(entry => {
+        const time = Date.parse(entry.timestamp);
+        return (
+          (!filter.status || entry.success === (filter.status === 'success')) &&
+          (!text || entry.sql.toLowerCase().includes(text)) &&
+          (since === undefined || time >= since) &&
+          (until === undefined || time <= until)
+        );
+      })
+      .sort((a, b) => b.id - a.id);
+
+    const limit = filter.limit ?? DEFAULT_SEARCH_LIMIT;
+    return { entries: matches.slice(0, limit), total: matches.length };
+  }
+
+  private redact(entry: HistoryEntry): HistoryEntry {
+    const sql = redactSql(entry.sql);
+    const binds = redactBinds(entry.binds, this.redaction) as BindValues | undefined;
+    const redacted =
+      entry.redacted || sql !== entry.sql || JSON.stringify(binds) !== JSON.stringify(entry.binds);
+    return { ...entry, sql, binds, redacted: redacted || undefined };
+  }
+
+  private load(): void {
+    const path = this.options.path;
+    if (!path || !existsSync(path)) {
+      return;
+    }
+
+    try {
+      const saved = JSON.parse(readFileSync(path, 'utf8')) as HistoryEntry[];
+      // Files written by earlier versions may hold unredacted entries
+      for (const entry of saved.map(e => this.redact(e))) {
+        const list = this.entries.get(entry.connection) || [];
+        list.push(entry);
+        this.entries.set(entry.connection, list.slice(-this.options.maxEntries));
+        this.nextId = Math.max(this.nextId, entry.id + 1);
+      }
+    } catch (e) {
+      console.error(`Failed to load query history from '${path}':`, e);
+    }
+  }
+
+  // Binds not matched by the redaction are saved as given, so the file is
+  // only readable by the owner
+  private save(): void {
+    const path = this.options.path;
+    if (!path) {
+      return;
+    }
+
+    try {
+      const all = Array.from(this.entries.values())
+        .flat()
+        .sort((a, b) => a.id - b.id);
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(all), { encoding: 'utf8', mode: 0o600 });
+    } catch (e) {
+      console.error(`Failed to save query history to '${path}':`, e);
+    }
+  }
+}
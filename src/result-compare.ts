@@ -0,0 +1,240 @@
+/**
+ * Result Comparison for Oracle MCP Server
+ *
+ * Aligns the rows of two query results, either by key columns or by whole
+ * rows, and reports the rows found on one side only and, for keyed
+ * comparisons, the cells that differ between matching rows.
+ */
+
+import { ChangedRow, ResultColumn } from './types.js';
+
+export const DEFAULT_MAX_DIFFERENCES = 50;
+
+export interface ComparedResult {
+  // Name shown in error messages, e.g. the connection
+  label: string;
+  columns: ResultColumn[];
+  rows: unknown[][];
+}
+
+export interface RowComparison {
+  keyColumns?: string[];
+  columns: ResultColumn[];
+  columnsOnlyInA: string[];
+  columnsOnlyInB: string[];
+  matchingRows: number;
+  onlyInA: unknown[][];
+  onlyInB: unknown[][];
+  changed: ChangedRow[];
+  onlyInACount: number;
+  onlyInBCount: number;
+  changedCount: number;
+}
+
+// ============================================================================
+// Value Identity
+// ============================================================================
+
+/**
+ * Stable text for a value, tagged with its kind so that e.g. the number 1
+ * and the string '1' stay different.
+ */
+function valueKey(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return `d:${value.toISOString()}`;
+  }
+  if (Buffer.isBuffer(value)) {
+    return `b:${value.toString('hex')}`;
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return `n:${value.toString()}`;
+  }
+  if (typeof value === 'object') {
+    return `o:${JSON.stringify(value)}`;
+  }
+  return `s:${String(value)}`;
+}
+
+function rowKey(row: unknown[], indexes: number[]): string {
+  return JSON.stringify(indexes.map(i => valueKey(row[i])));
+}
+
+// ============================================================================
+// Column Alignment
+// ============================================================================
+
+function findColumn(columns: ResultColumn[], name: string): number {
+  const exact = columns.findIndex(col => col.name === name);
+  if (exact >= 0) {
+    return exact;
+  }
+  return columns.findIndex(col => col.name.toUpperCase() === name.toUpperCase());
+}
+
+// ============================================================================
+// Row Comparison
+// ============================================================================
+
+/**
+ * Compare two results on the columns they share. With key columns, rows
+ * are paired by key and their other cells compared; without them, each
+ * row is matched against an identical row on the other side.
+ */
+export function compareRows(
+  a: ComparedResult,
+  b: ComparedResult,
+  keyColumns: string[] = [],
+  maxDifferences: number = DEFAULT_MAX_DIFFERENCES
+): RowComparison {
+  const shared = a.columns
+    .map((col, i) => ({ col, indexA: i, indexB: findColumn(b.columns, col.name) }))
+    .filter(({ indexB }) => indexB >= 0);
+  const columnsOnlyInA = a.columns
+    .filter(col => findColumn(b.columns, col.name) < 0)
+    .map(col => col.name);
+  const columnsOnlyInB = b.columns
+    .filter(col => findColumn(a.columns, col.name) < 0)
+    .map(col => col.name);
+  if (shared.length === 0) {
+    throw new Error(`The results of ${a.label} and ${b.label} have no columns in common`);
+  }
+
+  // Rows are reduced to the shared columns, in the column order of A
+  const columns = shared.map(({ col }) => col);
+  const rowsA = a.rows.map(row => shared.map(({ indexA }) => row[indexA]));
+  const rowsB = b.rows.map(row => shared.map(({ indexB }) => row[indexB]));
+
+  const base = { columns, columnsOnlyInA, columnsOnlyInB };
+  if (keyColumns.length === 0) {
+    return { ...base, ...compareWholeRows(rowsA, rowsB, columns.length, maxDifferences) };
+  }
+
+  const keyIndexes = keyColumns.map(name => {
+    const index = findColumn(columns, name);
+    if (index < 0) {
+      throw new Error(`Key column '${name}' is not in both results`);
+    }
+    return index;
+  });
+
+  return {
+    ...base,
+    keyColumns: keyIndexes.map(i => columns[i].name),
+    ...compareKeyedRows(a.label, b.label, rowsA, rowsB, columns, keyIndexes, maxDifferences),
+  };
+}
+
+function compareWholeRows(
+  rowsA: unknown[][],
+  rowsB: unknown[][],
+  width: number,
+  maxDifferences: number
+): Omit<RowComparison, 'columns' | 'columnsOnlyInA' | 'columnsOnlyInB'> {
+  const indexes = Array.from({ length: width }, (_, i) => i);
+
+  // Identical rows may occur several times; each copy needs its own match
+  const unmatchedB = new Map<string, number>();
+  for (const row of rowsB) {
+    const key = rowKey(row, indexes);
+    unmatchedB.set(key, (unmatchedB.get(key) || 0) + 1);
+  }
+
+  const onlyInA: unknown[][] = [];
+  for (const row of rowsA) {
+    const key = rowKey(row, indexes);
+    const count = unmatchedB.get(key) || 0;
+    if (count > 0) {
+      unmatchedB.set(key, count - 1);
+    } else {
+      onlyInA.push(row);
+    }
+  }
+
+  const onlyInB: unknown[][] = [];
+  for (const row of rowsB) {
+    const key = rowKey(row, indexes);
+    const count = unmatchedB.get(key) || 0;
+    if (count > 0) {
+      unmatchedB.set(key, count - 1);
+      onlyInB.push(row);
+    }
+  }
+
+  return {
+    matchingRows: rowsA.length - onlyInA.length,
+    onlyInA: onlyInA.slice(0, maxDifferences),
+    onlyInB: onlyInB.slice(0, maxDifferences),
+    changed: [],
+    onlyInACount: onlyInA.length,
+    onlyInBCount: onlyInB.length,
+    changedCount: 0,
+  };
+}
+
+function indexByKey(
+  label: string,
+  rows: unknown[][],
+  keyIndexes: number[]
+): Map<string, unknown[]> {
+  const index = new Map<string, unknown[]>();
+  for (const row of rows) {
+    const key = rowKey(row, keyIndexes);
+    if (index.has(key)) {
+      const values = keyIndexes.map(i => String(row[i] ?? 'NULL')).join(', ');
+      throw new Error(
+        `Key columns do not identify rows uniquely: (${values}) occurs more than once in ${label}`
+      );
+    }
+    index.set(key, row);
+  }
+  return index;
+}
+
+function compareKeyedRows(
+  labelA: string,
+  labelB: string,
+  rowsA: unknown[][],
+  rowsB: unknown[][],
+  columns: ResultColumn[],
+  keyIndexes: number[],
+  maxDifferences: number
+): Omit<RowComparison, 'columns' | 'columnsOnlyInA' | 'columnsOnlyInB' | 'keyColumns'> {
+  const indexA = indexByKey(labelA, rowsA, keyIndexes);
+  const indexB = indexByKey(labelB, rowsB, keyIndexes);
+
+  const onlyInA: unknown[][] = [];
+  const changed: ChangedRow[] = [];
+  let matchingRows = 0;
+  for (const [key, rowA] of indexA) {
+    const rowB = indexB.get(key);
+    if (!rowB) {
+      onlyInA.push(rowA);
+      continue;
+    }
+
+    const cells = columns
+      .map((col, i) => ({ column: col.name, a: rowA[i], b: rowB[i] }))
+      .filter((cell, i) => !keyIndexes.includes(i) && valueKey(cell.a) !== valueKey(cell.b));
+    if (cells.length > 0) {
+      changed.push({ key: keyIndexes.map(i => rowA[i]), cells });
+    } else {
+      matchingRows++;
+    }
+  }
+  const onlyInB = Array.from(indexB)
+    .filter(([key]) => !indexA.has(key))
+    .map(([, row]) => row);
+
+  return {
+    matchingRows,
+    onlyInA: onlyInA.slice(0, maxDifferences),
+    onlyInB: onlyInB.slice(0, maxDifferences),
+    changed: changed.slice(0, maxDifferences),
+    onlyInACount: onlyInA.length,
+    onlyInBCount: onlyInB.length,
+    changedCount: changed.length,
+  };
+}
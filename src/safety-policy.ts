@@ -0,0 +1,313 @@
+/**
+ * Safety Policy for Oracle MCP Server
+ *
+ * Declarative guardrails configured per connection: which statement types
+ * may run, which schemas and tables DML may write to, how many rows a DML
+ * statement may change, which danger levels are refused outright and how
+ * expensive a query's plan may be.
+ */
+
+import { createdObjectType, parseDmlTarget } from './sql-lexer.js';
+import { CostGuard, DangerLevel, PlanEstimate, QueryType, SafetyPolicy } from './types.js';
+
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+  deniedStatements: [],
+  allowDdl: true,
+  blockedDangerLevels: [DangerLevel.CRITICAL],
+  exemptCreateTypes: ['PROCEDURE', 'FUNCTION', 'PACKAGE', 'TRIGGER', 'TYPE', 'VIEW'],
+};
+
+const WRITE_TYPES = [QueryType.INSERT, QueryType.UPDATE, QueryType.DELETE, QueryType.MERGE];
+
+// Statements whose writes happen inside code the policy cannot inspect
+const PROCEDURAL_TYPES = [QueryType.PLSQL, QueryType.CALL];
+
+// ============================================================================
+// Configuration Parsing
+// ============================================================================
+
+function parseList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+function parseEnumList<T extends string>(
+  value: unknown,
+  allowed: Record<string, T>,
+  key: string
+): T[] | undefined {
+  const items = parseList(value);
+  if (!items) {
+    return undefined;
+  }
+  const known = Object.values(allowed);
+  return items.map(item => {
+    const lower = item.toLowerCase() as T;
+    if (!known.includes(lower)) {
+      throw new Error(
+        `Unknown value '${item}' in policy ${key} (expected one of: ${known.join(', ')})`
+      );
+    }
+    return lower;
+  });
+}
+
+function parseCostGuard(raw: Record<string, unknown>): CostGuard {
+  const action = ((raw.action as string | undefined) ?? 'confirm').toLowerCase();
+  if (action !== 'block' && action !== 'confirm') {
+    throw new Error(
+      `Unknown value '${raw.action}' in policy costGuard.action (expected block or confirm)`
+    );
+  }
+
+  const guard: CostGuard = { action };
+  const maxCost = raw.max_cost ?? raw.maxCost;
+  if (typeof maxCost === 'number') {
+    guard.maxCost = maxCost;
+  }
+  const maxCardinality = raw.max_cardinality ?? raw.maxCardinality;
+  if (typeof maxCardinality === 'number') {
+    guard.maxCardinality = maxCardinality;
+  }
+  const fullScanTableRows = raw.full_scan_table_rows ?? raw.fullScanTableRows;
+  if (typeof fullScanTableRows === 'number') {
+    guard.fullScanTableRows = fullScanTableRows;
+  }
+  return guard;
+}
+
+/**
+ * Read a policy block from the config. Only keys present in the block are
+ * returned, so the result can be layered over a broader policy.
+ */
+export function parseSafetyPolicy(raw: Record<string, unknown>): Partial<SafetyPolicy> {
+  const policy: Partial<SafetyPolicy> = {};
+
+  const allowed = parseEnumList(
+    raw.allowed_statements ?? raw.allowedStatements,
+    QueryType,
+    'allowedStatements'
+  );
+  if (allowed) {
+    policy.allowedStatements = allowed;
+  }
+  const denied = parseEnumList(
+    raw.denied_statements ?? raw.deniedStatements,
+    QueryType,
+    'deniedStatements'
+  );
+  if (denied) {
+    policy.deniedStatements = denied;
+  }
+  const schemas = parseList(raw.writable_schemas ?? raw.writableSchemas);
+  if (schemas) {
+    policy.writableSchemas = schemas;
+  }
+  const tables = parseList(raw.writable_tables ?? raw.writableTables);
+  if (tables) {
+    policy.writableTables = tables;
+  }
+  const maxDmlRows = raw.max_dml_rows ?? raw.maxDmlRows;
+  if (typeof maxDmlRows === 'number') {
+    policy.maxDmlRows = maxDmlRows;
+  }
+  const allowUncheckedPlsql = raw.allow_unchecked_plsql ?? raw.allowUncheckedPlsql;
+  if (typeof allowUncheckedPlsql === 'boolean') {
+    policy.allowUncheckedPlsql = allowUncheckedPlsql;
+  }
+  const allowDdl = raw.allow_ddl ?? raw.allowDdl;
+  if (typeof allowDdl === 'boolean') {
+    policy.allowDdl = allowDdl;
+  }
+  const blocked = parseEnumList(
+    raw.blocked_danger_levels ?? raw.blockedDangerLevels,
+    DangerLevel,
+    'blockedDangerLevels'
+  );
+  if (blocked) {
+    policy.blockedDangerLevels = blocked;
+  }
+  const exempt = parseList(raw.exempt_create_types ?? raw.exemptCreateTypes);
+  if (exempt) {
+    policy.exemptCreateTypes = exempt.map(type => type.toUpperCase());
+  }
+  const costGuard = raw.cost_guard ?? raw.costGuard;
+  if (costGuard && typeof costGuard === 'object') {
+    policy.costGuard = parseCostGuard(costGuard as Record<string, unknown>);
+  }
+
+  return policy;
+}
+
+export function resolvePolicy(base: SafetyPolicy, override?: Partial<SafetyPolicy>): SafetyPolicy {
+  return { ...base, ...override };
+}
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+// Case-insensitive match with * as a wildcard
+export function matchesPattern(name: string, pattern: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(name);
+}
+
+// Resolve a table reference to SCHEMA.TABLE, folding unquoted names to uppercase
+export function qualifyTable(
+  table: string,
+  defaultSchema: string
+): { schema: string; name: string } {
+  const parts = table
+    .replace(/@.*$/, '')
+    .split('.')
+    .map(part => (/^".*"$/.test(part) ? part.slice(1, -1) : part.toUpperCase()));
+  return parts.length > 1
+    ? { schema: parts[0], name: parts[1] }
+    : { schema: defaultSchema.toUpperCase(), name: parts[0] };
+}
+
+function checkWriteTarget(policy: SafetyPolicy, sql: string, defaultSchema: string): string | undefined {
+  if (!policy.writableSchemas && !policy.writableTables) {
+    return undefined;
+  }
+
+  const target = parseDmlTarget(sql);
+  if (!target) {
+    return 'the target table could not be determined, and the policy restricts writable tables';
+  }
+
+  const { schema, name } = qualifyTable(target.table, defaultSchema);
+  const qualified = `${schema}.${name}`;
+  const schemaAllowed =
+    policy.writableSchemas?.some(pattern => matchesPattern(schema, pattern)) ?? false;
+  const tableAllowed =
+    policy.writableTables?.some(pattern =>
+      pattern.includes('.') ? matchesPattern(qualified, pattern) : matchesPattern(name, pattern)
+    ) ?? false;
+
+  if (!schemaAllowed && !tableAllowed) {
+    return `${qualified} is not writable under this connection's policy`;
+  }
+  return undefined;
+}
+
+// Writable tables and the row limit only bind top-level DML, so PL/SQL and
+// procedure calls could write around them
+function checkProceduralWrites(policy: SafetyPolicy): string | undefined {
+  if (!policy.writableSchemas && !policy.writableTables && policy.maxDmlRows === undefined) {
+    return undefined;
+  }
+  return (
+    'PL/SQL and procedure calls cannot be checked against the write restrictions of this ' +
+    'policy (set allowUncheckedPlsql to allow them)'
+  );
+}
+
+/**
+ * Check a statement against a policy. Returns the reason it is refused, or
+ * undefined if it may run. The row limit is enforced after execution.
+ */
+export function checkPolicy(
+  policy: SafetyPolicy,
+  sql: string,
+  queryType: QueryType,
+  dangerLevel: DangerLevel,
+  defaultSchema: string
+): string | undefined {
+  if (policy.allowedStatements && !policy.allowedStatements.includes(queryType)) {
+    return `${queryType.toUpperCase()} statements are not allowed (allowed: ${
+      policy.allowedStatements.join(', ') || 'none'
+    })`;
+  }
+  if (policy.deniedStatements.includes(queryType)) {
+    return `${queryType.toUpperCase()} statements are denied`;
+  }
+  if (queryType === QueryType.DDL && !policy.allowDdl) {
+    return 'DDL statements are not allowed';
+  }
+
+  if (policy.blockedDangerLevels.includes(dangerLevel)) {
+    const created = createdObjectType(sql);
+    if (!created || !policy.exemptCreateTypes.includes(created)) {
+      return `${dangerLevel.toUpperCase()} statements are blocked`;
+    }
+  }
+
+  if (WRITE_TYPES.includes(queryType)) {
+    return checkWriteTarget(policy, sql, defaultSchema);
+  }
+  if (PROCEDURAL_TYPES.includes(queryType) && !policy.allowUncheckedPlsql) {
+    return checkProceduralWrites(policy);
+  }
+  return undefined;
+}
+
+/**
+ * Compare a plan's estimates with the cost guard. Returns the limits the
+ * query exceeds; empty when it may run.
+ */
+export function checkCostGuard(guard: CostGuard, estimate: PlanEstimate): string[] {
+  const exceeded: string[] = [];
+  if (guard.maxCost !== undefined && (estimate.cost ?? 0) > guard.maxCost) {
+    exceeded.push(`estimated cost ${estimate.cost} exceeds ${guard.maxCost}`);
+  }
+  if (guard.maxCardinality !== undefined && (estimate.cardinality ?? 0) > guard.maxCardinality) {
+    exceeded.push(`estimated ${estimate.cardinality} rows exceed ${guard.maxCardinality}`);
+  }
+  if (guard.fullScanTableRows !== undefined) {
+    const limit = guard.fullScanTableRows;
+    for (const scan of estimate.fullScans) {
+      if ((scan.rows ?? 0) > limit) {
+        exceeded.push(`full scan of ${scan.table} (${scan.rows} rows, limit ${limit})`);
+      }
+    }
+  }
+  return exceeded;
+}
+
+export function describePolicy(policy: SafetyPolicy): string[] {
+  const lines: string[] = [];
+  if (policy.allowedStatements) {
+    lines.push(`allowed: ${policy.allowedStatements.join(', ') || 'none'}`);
+  }
+  if (policy.deniedStatements.length > 0) {
+    lines.push(`denied: ${policy.deniedStatements.join(', ')}`);
+  }
+  if (!policy.allowDdl) {
+    lines.push('no DDL');
+  }
+  if (policy.writableSchemas) {
+    lines.push(`writable schemas: ${policy.writableSchemas.join(', ') || 'none'}`);
+  }
+  if (policy.writableTables) {
+    lines.push(`writable tables: ${policy.writableTables.join(', ') || 'none'}`);
+  }
+  if (policy.maxDmlRows !== undefined) {
+    lines.push(`max DML rows: ${policy.maxDmlRows}`);
+  }
+  if (policy.allowUncheckedPlsql) {
+    lines.push('unchecked PL/SQL allowed');
+  }
+  if (policy.blockedDangerLevels.length > 0) {
+    lines.push(`blocked: ${policy.blockedDangerLevels.join(', ')}`);
+  }
+  if (policy.costGuard) {
+    const { maxCost, maxCardinality, fullScanTableRows, action } = policy.costGuard;
+    const limits = [
+      maxCost !== undefined ? `cost ${maxCost}` : undefined,
+      maxCardinality !== undefined ? `rows ${maxCardinality}` : undefined,
+      fullScanTableRows !== undefined ? `full scans over ${fullScanTableRows} rows` : undefined,
+    ].filter(Boolean);
+    lines.push(`cost guard (${action}): ${limits.join(', ') || 'no limits'}`);
+  }
+  return lines;
+}
@@ -0,0 +1,187 @@
+/**
+ * Saved Queries for Oracle MCP Server
+ *
+ * Named, parameterized statements defined in config. Each one is offered as
+ * its own tool so users can run approved reports and changes without
+ * writing SQL; parameter values are always passed as binds.
+ */
+
+import { tokenize } from './sql-lexer.js';
+import { BindValues, SavedQuery, SavedQueryParam, SavedQueryParamType } from './types.js';
+
+export const SAVED_QUERY_TOOL_PREFIX = 'saved_';
+
+const PARAM_TYPES: SavedQueryParamType[] = ['string', 'number', 'integer', 'date', 'timestamp'];
+
+// Tool arguments of their own, so they cannot be parameter names
+const RESERVED_PARAM_NAMES = ['connection', 'max_rows', 'format', 'confirmation_token'];
+
+// ============================================================================
+// Configuration Parsing
+// ============================================================================
+
+function parseParameter(queryName: string, raw: Record<string, unknown>): SavedQueryParam {
+  const name = raw.name as string;
+  if (!name || !/^[A-Za-z][A-Za-z0-9_$#]*$/.test(name)) {
+    throw new Error(`Saved query '${queryName}': invalid parameter name '${String(name)}'`);
+  }
+  if (RESERVED_PARAM_NAMES.includes(name.toLowerCase())) {
+    throw new Error(`Saved query '${queryName}': parameter name '${name}' is reserved`);
+  }
+
+  const type = ((raw.type as string) || 'string').toLowerCase() as SavedQueryParamType;
+  if (!PARAM_TYPES.includes(type)) {
+    throw new Error(
+      `Saved query '${queryName}': parameter '${name}' has unknown type '${type}' (expected one of: ${PARAM_TYPES.join(', ')})`
+    );
+  }
+
+  const allowedValues = (raw.allowed_values ?? raw.allowedValues ?? raw.enum) as
+    | (string | number)[]
+    | undefined;
+  const defaultValue = raw.default as string | number | undefined;
+  return {
+    name,
+    type,
+    description: raw.description as string | undefined,
+    // Parameters with a default are optional unless stated otherwise
+    required: (raw.required as boolean | undefined) ?? defaultValue === undefined,
+    default: defaultValue,
+    allowedValues: Array.isArray(allowedValues) ? allowedValues : undefined,
+  };
+}
+
+/**
+ * Read and validate the savedQueries config section. Every bind in the
+ * statement must be a declared parameter and every parameter must be used.
+ */
+export function parseSavedQueries(raw: unknown, connectionNames: string[]): SavedQuery[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error('savedQueries must be an array');
+  }
+
+  const queries: SavedQuery[] = [];
+  for (const item of raw as Record<string, unknown>[]) {
+    const name = item.name as string;
+    if (!name || !/^[A-Za-z0-9_-]+$/.test(name)) {
+      throw new Error(
+        `Invalid saved query name '${String(name)}' (use letters, digits, underscores and hyphens)`
+      );
+    }
+    if (queries.some(q => q.name === name)) {
+      throw new Error(`Duplicate saved query '${name}'`);
+    }
+
+    const sql = item.sql as string;
+    if (!sql || !sql.trim()) {
+      throw new Error(`Saved query '${name}' has no sql`);
+    }
+
+    const connectionList = item.connections ?? (item.connection ? [item.connection] : connectionNames);
+    const connections = (connectionList as string[]).map(String);
+    for (const conn of connections) {
+      if (!connectionNames.includes(conn)) {
+        throw new Error(`Saved query '${name}' refers to unknown connection '${conn}'`);
+      }
+    }
+    if (connections.length === 0) {
+      throw new Error(`Saved query '${name}' has no connection to run on`);
+    }
+
+    const parameters = ((item.parameters || item.params || []) as Record<string, unknown>[]).map(p =>
+      parseParameter(name, p)
+    );
+
+    const binds = new Set(
+      tokenize(sql)
+        .filter(token => token.type === 'bind')
+        .map(token => token.value.toUpperCase())
+    );
+    for (const bind of binds) {
+      if (/^\d+$/.test(bind)) {
+        throw new Error(`Saved query '${name}' must use named binds, not :${bind}`);
+      }
+      if (!parameters.some(p => p.name.toUpperCase() === bind)) {
+        throw new Error(`Saved query '${name}': bind :${bind} has no matching parameter`);
+      }
+    }
+    for (const param of parameters) {
+      if (!binds.has(param.name.toUpperCase())) {
+        throw new Error(`Saved query '${name}': parameter '${param.name}' is not used in the sql`);
+      }
+    }
+
+    queries.push({
+      name,
+      description: (item.description as string) || `Saved query '${name}'`,
+      sql,
+      connections,
+      parameters,
+      maxRows: (item.max_rows ?? item.maxRows) as number | undefined,
+    });
+  }
+  return queries;
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+export function savedQueryToolName(query: SavedQuery): string {
+  return `${SAVED_QUERY_TOOL_PREFIX}${query.name}`;
+}
+
+/**
+ * Pick the connection a saved query runs on: the requested one if the
+ * query allows it, otherwise its default.
+ */
+export function resolveSavedQueryConnection(query: SavedQuery, requested?: string): string {
+  if (!requested) {
+    return query.connections[0];
+  }
+  if (!query.connections.includes(requested)) {
+    throw new Error(
+      `Saved query '${query.name}' cannot run on '${requested}' (allowed: ${query.connections.join(', ')})`
+    );
+  }
+  return requested;
+}
+
+/**
+ * Validate parameter values from a tool call and turn them into typed binds.
+ * Unknown arguments are rejected so typos do not silently fall back to defaults.
+ */
+export function savedQueryBinds(query: SavedQuery, values: Record<string, unknown>): BindValues {
+  for (const key of Object.keys(values)) {
+    if (!query.parameters.some(p => p.name === key)) {
+      throw new Error(`Saved query '${query.name}' has no parameter '${key}'`);
+    }
+  }
+
+  const binds: Record<string, unknown> = {};
+  for (const param of query.parameters) {
+    const value = values[param.name] ?? param.default;
+    if (value === undefined || value === null) {
+      if (param.required) {
+        throw new Error(`Saved query '${query.name}': parameter '${param.name}' is required`);
+      }
+      binds[param.name] = { type: param.type === 'integer' ? 'number' : param.type, value: null };
+      continue;
+    }
+
+    if (param.allowedValues && !param.allowedValues.includes(value as string | number)) {
+      throw new Error(
+        `Saved query '${query.name}': parameter '${param.name}' must be one of ${param.allowedValues.join(', ')}`
+      );
+    }
+    if (param.type === 'integer' && !Number.isInteger(Number(value))) {
+      throw new Error(`Saved query '${query.name}': parameter '${param.name}' must be an integer`);
+    }
+
+    binds[param.name] = { type: param.type === 'integer' ? 'number' : param.type, value };
+  }
+  return binds;
+}
@@ -0,0 +1,679 @@
+/**
+ * SQL Lexer for Oracle MCP Server
+ *
+ * Tokenizes Oracle SQL and PL/SQL text so statement classification and
+ * safety checks are not fooled by comments, string literals or quoting.
+ */
+
+// ============================================================================
+// Token Types
+// ============================================================================
+
+export type SqlTokenType =
+  | 'word' // Unquoted identifier or keyword
+  | 'quoted_identifier' // "Quoted Identifier"
+  | 'string' // 'literal', N'literal', q'[literal]'
+  | 'number'
+  | 'bind' // :name or :1
+  | 'symbol';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  // Uppercased for words, unquoted contents for strings and quoted identifiers
+  value: string;
+  // Raw source text of the token
+  text: string;
+  start: number;
+  end: number;
+  // Parenthesis nesting depth the token appears at
+  depth: number;
+}
+
+const Q_QUOTE_CLOSERS: Record<string, string> = {
+  '[': ']',
+  '{': '}',
+  '<': '>',
+  '(': ')',
+};
+
+function isIdentifierStart(ch: string): boolean {
+  return /[A-Za-z_\u0080-\uffff]/.test(ch);
+}
+
+function isIdentifierPart(ch: string): boolean {
+  return /[A-Za-z0-9_$#\u0080-\uffff]/.test(ch);
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+/**
+ * Split SQL text into tokens, dropping whitespace and comments. Unterminated
+ * strings and comments run to the end of the input instead of failing.
+ */
+export function tokenize(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const push = (type: SqlTokenType, start: number, end: number, value: string): void => {
+    tokens.push({ type, value, text: sql.slice(start, end), start, end, depth });
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Single-line comment
+    if (ch === '-' && next === '-') {
+      const eol = sql.indexOf('\n', i);
+      i = eol === -1 ? sql.length : eol + 1;
+      continue;
+    }
+
+    // Multi-line comment (also covers optimizer hints)
+    if (ch === '/' && next === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      i = close === -1 ? sql.length : close + 2;
+      continue;
+    }
+
+    // Alternative quoting: q'[...]', nq'{...}'
+    const qMatch = /^(n?q)'(.)/i.exec(sql.slice(i, i + 4));
+    if (qMatch) {
+      const start = i;
+      const opener = qMatch[2];
+      const closer = (Q_QUOTE_CLOSERS[opener] || opener) + "'";
+      const contentStart = i + qMatch[1].length + 2;
+      const close = sql.indexOf(closer, contentStart);
+      const contentEnd = close === -1 ? sql.length : close;
+      i = close === -1 ? sql.length : close + 2;
+      push('string', start, i, sql.slice(contentStart, contentEnd));
+      continue;
+    }
+
+    // String literal, optionally national: 'it''s', N'text'
+    if (ch === "'" || ((ch === 'n' || ch === 'N') && next === "'")) {
+      const start = i;
+      i += ch === "'" ? 1 : 2;
+      let value = '';
+      while (i < sql.length) {
+        if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i];
+        i++;
+      }
+      push('string', start, i, value);
+      continue;
+    }
+
+    // Quoted identifier
+    if (ch === '"') {
+      const start = i;
+      const close = sql.indexOf('"', i + 1);
+      i = close === -1 ? sql.length : close + 1;
+      push('quoted_identifier', start, i, sql.slice(start + 1, close === -1 ? sql.length : close));
+      continue;
+    }
+
+    // Bind variable
+    if (ch === ':' && next !== undefined && (isIdentifierStart(next) || /[0-9]/.test(next))) {
+      const start = i;
+      i++;
+      while (i < sql.length && isIdentifierPart(sql[i])) {
+        i++;
+      }
+      push('bind', start, i, sql.slice(start + 1, i));
+      continue;
+    }
+
+    // Number
+    if (/[0-9]/.test(ch) || (ch === '.' && next !== undefined && /[0-9]/.test(next))) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?[fd]?/i.exec(sql.slice(i));
+      const length = match ? match[0].length : 1;
+      push('number', i, i + length, sql.slice(i, i + length));
+      i += length;
+      continue;
+    }
+
+    // Identifier or keyword
+    if (isIdentifierStart(ch)) {
+      const start = i;
+      while (i < sql.length && isIdentifierPart(sql[i])) {
+        i++;
+      }
+      push('word', start, i, sql.slice(start, i).toUpperCase());
+      continue;
+    }
+
+    // Symbols; parentheses track nesting depth
+    if (ch === '(') {
+      push('symbol', i, i + 1, ch);
+      depth++;
+      i++;
+      continue;
+    }
+    if (ch === ')') {
+      depth = Math.max(0, depth - 1);
+      push('symbol', i, i + 1, ch);
+      i++;
+      continue;
+    }
+
+    const twoChar = sql.slice(i, i + 2);
+    if (['||', ':=', '=>', '<>', '!=', '^=', '<=', '>=', '..'].includes(twoChar)) {
+      push('symbol', i, i + 2, twoChar);
+      i += 2;
+      continue;
+    }
+
+    push('symbol', i, i + 1, ch);
+    i++;
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Token Helpers
+// ============================================================================
+
+export function isKeyword(token: SqlToken | undefined, ...keywords: string[]): boolean {
+  return token !== undefined && token.type === 'word' && keywords.includes(token.value);
+}
+
+/**
+ * Index of the first keyword of the statement, skipping any opening
+ * parentheses such as in "(SELECT ...) UNION (SELECT ...)".
+ */
+export function leadingKeywordIndex(tokens: SqlToken[]): number {
+  let i = 0;
+  while (i < tokens.length && tokens[i].type === 'symbol' && tokens[i].value === '(') {
+    i++;
+  }
+  return i < tokens.length && tokens[i].type === 'word' ? i : -1;
+}
+
+/**
+ * Index of the first occurrence of a keyword sequence at the given nesting
+ * depth, or -1 if it does not appear.
+ */
+export function findKeywordSequence(
+  tokens: SqlToken[],
+  keywords: string[],
+  depth = 0,
+  from = 0
+): number {
+  for (let i = from; i <= tokens.length - keywords.length; i++) {
+    if (tokens[i].depth !== depth) {
+      continue;
+    }
+    if (keywords.every((kw, k) => isKeyword(tokens[i + k], kw))) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// ============================================================================
+// DML Target Parsing
+// ============================================================================
+
+export interface SqlFragment {
+  text: string;
+  // Binds in the fragment: name without ':' and 0-based position among all
+  // binds of the statement
+  binds: { name: string; ordinal: number }[];
+}
+
+export interface DmlTarget {
+  // Target table as written, e.g. hr.employees or "Orders"@remote
+  table: string;
+  alias?: string;
+  // WHERE condition of UPDATE/DELETE, ON condition of MERGE
+  condition?: SqlFragment;
+  // MERGE source: a table reference or parenthesized subquery, with its alias
+  source?: SqlFragment;
+  sourceAlias?: string;
+}
+
+// Keywords that end a DML WHERE clause
+const WHERE_TERMINATORS = ['RETURNING', 'RETURN', 'LOG'];
+
+function fragment(sql: string, tokens: SqlToken[], from: number, to: number): SqlFragment {
+  const binds: SqlFragment['binds'] = [];
+  let ordinal = 0;
+  tokens.forEach((token, i) => {
+    if (token.type !== 'bind') {
+      return;
+    }
+    if (i >= from && i < to) {
+      binds.push({ name: token.value, ordinal });
+    }
+    ordinal++;
+  });
+  return { text: from < to ? sql.slice(tokens[from].start, tokens[to - 1].end) : '', binds };
+}
+
+// Reads "name", "schema.name" or "name@link" starting at i; returns the end index
+function readTableReference(tokens: SqlToken[], i: number): number {
+  const isName = (t?: SqlToken) =>
+    t !== undefined && (t.type === 'word' || t.type === 'quoted_identifier');
+  if (!isName(tokens[i])) {
+    return -1;
+  }
+  i++;
+  while (
+    tokens[i]?.type === 'symbol' &&
+    (tokens[i].value === '.' || tokens[i].value === '@') &&
+    isName(tokens[i + 1])
+  ) {
+    i += 2;
+  }
+  return i;
+}
+
+// Reads an optional alias at i unless it is one of the given keywords
+function readAlias(tokens: SqlToken[], i: number, notKeywords: string[]): string | undefined {
+  const token = tokens[i];
+  if (token?.type === 'quoted_identifier') {
+    return token.text;
+  }
+  if (token?.type === 'word' && !notKeywords.includes(token.value)) {
+    return token.text;
+  }
+  return undefined;
+}
+
+/**
+ * Find the target table and row filter of an INSERT, UPDATE, DELETE or MERGE
+ * so the affected rows can be selected. Returns undefined for statements
+ * whose target is not a single plain table reference, such as UPDATE on a
+ * subquery or a multi-table INSERT ALL.
+ */
+export function parseDmlTarget(sql: string): DmlTarget | undefined {
+  const tokens = tokenize(sql);
+  const start = leadingKeywordIndex(tokens);
+  if (start === -1 || tokens[start].depth !== 0) {
+    return undefined;
+  }
+  const keyword = tokens[start].value;
+
+  let i = start + 1;
+  if (keyword === 'DELETE' && isKeyword(tokens[i], 'FROM')) {
+    i++;
+  } else if (keyword === 'INSERT' || keyword === 'MERGE') {
+    if (!isKeyword(tokens[i], 'INTO')) {
+      return undefined;
+    }
+    i++;
+  } else if (keyword !== 'UPDATE' && keyword !== 'DELETE') {
+    return undefined;
+  }
+
+  const tableEnd = readTableReference(tokens, i);
+  if (tableEnd === -1) {
+    return undefined;
+  }
+  const table = sql.slice(tokens[i].start, tokens[tableEnd - 1].end);
+
+  const alias = readAlias(tokens, tableEnd, [
+    'SET',
+    'WHERE',
+    'USING',
+    'RETURNING',
+    'RETURN',
+    'LOG',
+    'VALUES',
+    'SELECT',
+    'WITH',
+  ]);
+  i = alias ? tableEnd + 1 : tableEnd;
+
+  if (keyword === 'INSERT') {
+    return { table, alias };
+  }
+
+  if (keyword !== 'MERGE') {
+    const where = findKeywordSequence(tokens, ['WHERE'], 0, i);
+    if (where === -1) {
+      return { table, alias };
+    }
+    let end = where + 1;
+    while (
+      end < tokens.length &&
+      !(tokens[end].depth === 0 && isKeyword(tokens[end], ...WHERE_TERMINATORS)) &&
+      !(tokens[end].type === 'symbol' && tokens[end].value === ';')
+    ) {
+      end++;
+    }
+    return { table, alias, condition: fragment(sql, tokens, where + 1, end) };
+  }
+
+  // MERGE INTO target [alias] USING source [alias] ON (condition)
+  if (!isKeyword(tokens[i], 'USING')) {
+    return undefined;
+  }
+  i++;
+
+  let sourceEnd: number;
+  if (tokens[i]?.type === 'symbol' && tokens[i].value === '(') {
+    sourceEnd = i + 1;
+    while (
+      sourceEnd < tokens.length &&
+      !(tokens[sourceEnd].depth === 0 && tokens[sourceEnd].value === ')')
+    ) {
+      sourceEnd++;
+    }
+    sourceEnd++;
+  } else {
+    sourceEnd = readTableReference(tokens, i);
+  }
+  if (sourceEnd === -1 || sourceEnd > tokens.length) {
+    return undefined;
+  }
+  const source = fragment(sql, tokens, i, sourceEnd);
+
+  const sourceAlias = readAlias(tokens, sourceEnd, ['ON']);
+  i = sourceAlias ? sourceEnd + 1 : sourceEnd;
+
+  if (!isKeyword(tokens[i], 'ON') || tokens[i + 1]?.value !== '(') {
+    return undefined;
+  }
+  const conditionStart = i + 2;
+  let conditionEnd = conditionStart;
+  while (
+    conditionEnd < tokens.length &&
+    !(tokens[conditionEnd].depth === 0 && tokens[conditionEnd].value === ')')
+  ) {
+    conditionEnd++;
+  }
+  if (conditionEnd >= tokens.length) {
+    return undefined;
+  }
+
+  return {
+    table,
+    alias,
+    source,
+    sourceAlias,
+    condition: fragment(sql, tokens, conditionStart, conditionEnd),
+  };
+}
+
+// ============================================================================
+// Table References
+// ============================================================================
+
+// Keywords that can follow a table reference in a FROM clause, so are not aliases
+const FROM_CLAUSE_KEYWORDS = [
+  'WHERE',
+  'JOIN',
+  'INNER',
+  'LEFT',
+  'RIGHT',
+  'FULL',
+  'CROSS',
+  'NATURAL',
+  'OUTER',
+  'ON',
+  'USING',
+  'GROUP',
+  'ORDER',
+  'HAVING',
+  'CONNECT',
+  'START',
+  'UNION',
+  'INTERSECT',
+  'MINUS',
+  'EXCEPT',
+  'FETCH',
+  'OFFSET',
+  'FOR',
+  'PARTITION',
+  'SAMPLE',
+  'AS',
+  'PIVOT',
+  'UNPIVOT',
+  'MODEL',
+  'WINDOW',
+];
+
+/**
+ * Tables and views a query reads, as written: every name after FROM or
+ * JOIN at any depth, including comma-separated FROM lists. Inline views and
+ * table functions are not names, so they are skipped. May include extra
+ * names, e.g. the column in EXTRACT(YEAR FROM col).
+ */
+export function referencedTables(sql: string): string[] {
+  const tokens = tokenize(sql);
+  const tables: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isKeyword(tokens[i], 'FROM', 'JOIN')) {
+      continue;
+    }
+    const depth = tokens[i].depth;
+    let j = i + 1;
+    for (;;) {
+      const end = readTableReference(tokens, j);
+      // A name followed by "(" is a function call such as TABLE(...)
+      if (end === -1 || (tokens[end]?.type === 'symbol' && tokens[end].value === '(')) {
+        break;
+      }
+      tables.push(sql.slice(tokens[j].start, tokens[end - 1].end));
+      j = readAlias(tokens, end, FROM_CLAUSE_KEYWORDS) ? end + 1 : end;
+      if (tokens[j]?.type !== 'symbol' || tokens[j].value !== ',' || tokens[j].depth !== depth) {
+        break;
+      }
+      j++;
+    }
+  }
+  return tables;
+}
+
+// ============================================================================
+// Select List
+// ============================================================================
+
+export interface NameReferences {
+  // Names used, including words inside string literals, which may hold SQL
+  // run dynamically
+  names: string[];
+  // "*" used inside an expression, e.g. JSON_OBJECT(*), reads every column
+  wildcard: boolean;
+  // A string literal contains a query, e.g. for DBMS_XMLGEN
+  dynamicSql: boolean;
+}
+
+export interface SelectItem extends NameReferences {
+  // Column read by a plain column reference such as e.email, with or
+  // without an alias
+  column?: string;
+  // "*" or "alias.*"
+  star: boolean;
+}
+
+// Keywords that end the FROM clause of a query
+const FROM_CLAUSE_TERMINATORS = [
+  'WHERE',
+  'GROUP',
+  'HAVING',
+  'ORDER',
+  'CONNECT',
+  'START',
+  'FETCH',
+  'OFFSET',
+  'FOR',
+  'WINDOW',
+];
+
+// Constructs whose result columns are not columns of the tables they read
+const DERIVED_COLUMN_KEYWORDS = ['SELECT', 'PIVOT', 'UNPIVOT', 'MODEL', 'MATCH_RECOGNIZE'];
+
+function tokenReferences(tokens: SqlToken[]): NameReferences {
+  const names: string[] = [];
+  let wildcard = false;
+  let dynamicSql = false;
+  tokens.forEach((token, i) => {
+    if (token.type === 'word' || token.type === 'quoted_identifier') {
+      names.push(token.value);
+    } else if (token.type === 'string') {
+      names.push(...(token.value.toUpperCase().match(/[A-Z0-9_$#]+/g) || []));
+      dynamicSql = dynamicSql || /\bSELECT\b/i.test(token.value);
+    } else if (token.type === 'symbol' && token.value === '*') {
+      // After "(", "." or "," a star is a wildcard rather than a product;
+      // COUNT(*) reads no values
+      const prev = tokens[i - 1];
+      const isWildcard = prev?.type === 'symbol' && ['(', '.', ','].includes(prev.value);
+      if (isWildcard && !(prev.value === '(' && isKeyword(tokens[i - 2], 'COUNT'))) {
+        wildcard = true;
+      }
+    }
+  });
+  return { names, wildcard, dynamicSql };
+}
+
+/**
+ * Names a statement uses anywhere, and whether it reads columns it does not
+ * name.
+ */
+export function nameReferences(sql: string): NameReferences {
+  return tokenReferences(tokenize(sql));
+}
+
+function selectItem(tokens: SqlToken[]): SelectItem {
+  const references = tokenReferences(tokens);
+  // "*", or a name and "." before the final "*"
+  const isStar = (t?: SqlToken) => t?.type === 'symbol' && t.value === '*';
+  const last = tokens.length - 1;
+  if (
+    isStar(tokens[last]) &&
+    (last === 0 || (last >= 2 && readTableReference(tokens, 0) === last - 1))
+  ) {
+    return { ...references, star: true, wildcard: false };
+  }
+
+  // A plain reference is a dotted name, optionally followed by an alias
+  const end = readTableReference(tokens, 0);
+  const rest = tokens.length - end;
+  const aliased =
+    (rest === 1 && readAlias(tokens, end, []) !== undefined) ||
+    (rest === 2 && isKeyword(tokens[end], 'AS') && readAlias(tokens, end + 1, []) !== undefined);
+  if (end !== -1 && (rest === 0 || aliased)) {
+    return { ...references, column: tokens[end - 1].value, star: false };
+  }
+  return { ...references, star: false };
+}
+
+/**
+ * Items of the outermost select list of a query. Returns undefined when the
+ * result columns cannot be traced to the tables read: queries with a WITH
+ * clause or set operators, and FROM clauses with inline views, table
+ * functions, PIVOT or UNPIVOT.
+ */
+export function selectListItems(sql: string): SelectItem[] | undefined {
+  const tokens = tokenize(sql);
+  const start = leadingKeywordIndex(tokens);
+  if (start === -1 || !isKeyword(tokens[start], 'SELECT')) {
+    return undefined;
+  }
+  const depth = tokens[start].depth;
+  const setOperator = tokens.some(
+    t => t.depth <= depth && isKeyword(t, 'UNION', 'INTERSECT', 'MINUS', 'EXCEPT')
+  );
+  if (setOperator || findKeywordSequence(tokens, ['MODEL'], depth) !== -1) {
+    return undefined;
+  }
+
+  let from = tokens.findIndex((t, i) => i > start && t.depth === depth && isKeyword(t, 'FROM'));
+  if (from === -1) {
+    from = tokens.length;
+  }
+  for (let i = from + 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.depth === depth && isKeyword(token, ...FROM_CLAUSE_TERMINATORS)) {
+      break;
+    }
+    if (token.depth < depth) {
+      break;
+    }
+    if (isKeyword(token, ...DERIVED_COLUMN_KEYWORDS)) {
+      return undefined;
+    }
+    // Table functions such as TABLE(...), JSON_TABLE(...) or XMLTABLE(...)
+    const prev = tokens[i - 1];
+    const startsReference =
+      i === from + 1 || isKeyword(prev, 'JOIN', 'APPLY', 'LATERAL') || prev.value === ',';
+    if (startsReference && token.type === 'word' && tokens[i + 1]?.value === '(') {
+      return undefined;
+    }
+  }
+
+  let i = start + 1;
+  if (isKeyword(tokens[i], 'DISTINCT', 'UNIQUE', 'ALL')) {
+    i++;
+  }
+  const items: SelectItem[] = [];
+  let itemStart = i;
+  for (; i <= from; i++) {
+    const isComma =
+      i < from && tokens[i].type === 'symbol' && tokens[i].value === ',' && tokens[i].depth === depth;
+    if (i === from || isComma) {
+      if (i > itemStart) {
+        items.push(selectItem(tokens.slice(itemStart, i)));
+      }
+      itemStart = i + 1;
+    }
+  }
+  return items;
+}
+
+// Modifiers that may appear between CREATE and the object type
+const CREATE_MODIFIERS = [
+  'OR',
+  'REPLACE',
+  'EDITIONABLE',
+  'NONEDITIONABLE',
+  'EDITIONING',
+  'FORCE',
+  'NO',
+  'PUBLIC',
+  'PRIVATE',
+  'GLOBAL',
+  'TEMPORARY',
+  'UNIQUE',
+  'BITMAP',
+];
+
+/**
+ * Object type created by a CREATE statement, e.g. PROCEDURE or VIEW, or
+ * undefined for other statements.
+ */
+export function createdObjectType(sql: string): string | undefined {
+  const tokens = tokenize(sql);
+  const start = leadingKeywordIndex(tokens);
+  if (start === -1 || !isKeyword(tokens[start], 'CREATE')) {
+    return undefined;
+  }
+
+  let i = start + 1;
+  while (isKeyword(tokens[i], ...CREATE_MODIFIERS)) {
+    i++;
+  }
+  return tokens[i]?.type === 'word' ? tokens[i].value : undefined;
+}
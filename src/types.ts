@@ -21,6 +21,10 @@ export enum QueryType {
   INSERT = 'insert',
   UPDATE = 'update',
   DELETE = 'delete',
+  MERGE = 'merge',
+  CALL = 'call',
+  LOCK_TABLE = 'lock_table',
+  COMMENT = 'comment',
   DDL = 'ddl',
   PLSQL = 'plsql',
   OTHER = 'other',
@@ -37,6 +41,15 @@ export enum DangerLevel {
 // Configuration Interfaces
 // ============================================================================
 
+export interface PoolConfig {
+  poolMin: number;
+  poolMax: number;
+  poolIncrement: number;
+  // Seconds an idle session stays in the pool before it is closed
+  poolTimeout: number;
+  stmtCacheSize: number;
+}
+
 export interface ConnectionConfig {
   name: string;
   username: string;
@@ -50,6 +63,51 @@ export interface ConnectionConfig {
   // Password - either direct or from environment variable
   password?: string;
   passwordEnv?: string;
+  // Pool overrides - unset values fall back to the server-wide pool settings
+  pool?: Partial<PoolConfig>;
+  // Statement timeout in seconds - overrides the server-wide queryTimeout
+  queryTimeout?: number;
+  // Overrides the server-wide transactionIdleTimeout
+  transactionIdleTimeout?: number;
+  // Lowest danger level that needs a confirmation token (default: high)
+  confirmationLevel?: ConfirmationLevel;
+  // Policy overrides - unset values fall back to the server-wide policy
+  policy?: Partial<SafetyPolicy>;
+}
+
+export type ConfirmationLevel = 'high' | 'moderate';
+
+// Guardrails applied to every statement on a connection
+export interface SafetyPolicy {
+  // Statement types that may run; undefined allows every type
+  allowedStatements?: QueryType[];
+  deniedStatements: QueryType[];
+  // Schemas and tables DML may write to ("HR", "HR.EMP*"); undefined allows all
+  writableSchemas?: string[];
+  writableTables?: string[];
+  // Largest number of rows a single DML statement may change
+  maxDmlRows?: number;
+  // Let PL/SQL and procedure calls run while writes are restricted; their
+  // writes cannot be checked against the limits above
+  allowUncheckedPlsql?: boolean;
+  allowDdl: boolean;
+  blockedDangerLevels: DangerLevel[];
+  // CREATE object types exempt from blockedDangerLevels, e.g. PROCEDURE
+  exemptCreateTypes: string[];
+  // Explain plan limits checked before execute_query or export_query runs a SELECT
+  costGuard?: CostGuard;
+}
+
+export type CostGuardAction = 'block' | 'confirm';
+
+export interface CostGuard {
+  maxCost?: number;
+  // Rows the optimizer expects the query to return
+  maxCardinality?: number;
+  // Full scans of tables with more rows than this (per optimizer statistics)
+  fullScanTableRows?: number;
+  // Refuse the query, or hold it for a confirmation token (default: confirm)
+  action: CostGuardAction;
 }
 
 export interface ServerConfig {
@@ -57,18 +115,123 @@ export interface ServerConfig {
   oracleClientPath?: string;
   defaultMaxRows: number;
   queryTimeout: number;
+  pool: PoolConfig;
+  // Seconds an unread paged result set stays open
+  cursorIdleTimeout: number;
+  // Paged result sets allowed open per connection (each holds a session)
+  maxOpenCursors: number;
+  // Seconds a confirmation token stays valid
+  confirmationTtl: number;
+  // Seconds an idle uncommitted transaction is kept before it is rolled back (0 keeps it)
+  transactionIdleTimeout: number;
+  policy: SafetyPolicy;
+  // Directory export_query writes files to
+  exportDir: string;
+  // Directory import_csv reads files from
+  importDir: string;
+  lob: LobOptions;
+  // DBMS_OUTPUT lines returned per call before the rest is dropped
+  maxOutputLines: number;
+  masking: MaskingOptions;
+  // Fetch NUMBER columns as strings so no digits are lost to JS doubles
+  numbersAsStrings: boolean;
+  audit: AuditOptions;
+  history: HistoryOptions;
+  savedQueries: SavedQuery[];
   connections: ConnectionConfig[];
 }
 
+// ============================================================================
+// Query Execution Interfaces
+// ============================================================================
+
+export type BindType = 'string' | 'number' | 'date' | 'timestamp' | 'clob' | 'blob';
+
+export type BindDirection = 'in' | 'out' | 'inout';
+
+// Typed bind value. BLOB values are base64 strings; a null value with a type
+// binds a typed NULL.
+export interface BindSpec {
+  type?: BindType;
+  value?: unknown;
+  dir?: BindDirection;
+  maxSize?: number;
+}
+
+// Bind values by name (:name) or by position (:1, :2, ...). Each entry is a
+// plain JSON value or a BindSpec.
+export type BindValues = Record<string, unknown> | unknown[];
+
+// Bind types for execute_batch, by name or by position
+export type BatchBindTypes = Record<string, BindType> | BindType[];
+
+export interface BatchRowError {
+  // Position of the failed row in the bind rows array
+  index: number;
+  error: string;
+}
+
+export interface ExecutionOptions {
+  // Per-call timeout in seconds - overrides the connection and server defaults
+  timeoutSeconds?: number;
+  // Aborted when the MCP client cancels the request
+  signal?: AbortSignal;
+  // Per-call overrides of the server LOB settings
+  lob?: Partial<LobOptions>;
+  // Fetch NUMBER columns as exact decimal strings (overrides the server setting)
+  numbersAsStrings?: boolean;
+  // Token approving a statement that was held for confirmation
+  confirmationToken?: string;
+  // Tool name recorded in the audit log (defaults to the executing method's tool)
+  tool?: string;
+  // Return DBMS_OUTPUT lines written by PL/SQL and procedure calls
+  captureOutput?: boolean;
+  // Per-call override of the server's DBMS_OUTPUT line cap
+  maxOutputLines?: number;
+}
+
+export type BlobPreview = 'none' | 'hex' | 'base64';
+
+// How LOB values in results and OUT binds are returned
+export interface LobOptions {
+  // CLOB/NCLOB characters returned before truncating (0 returns everything)
+  maxChars: number;
+  // BLOB/RAW rendering: size only, or a hex/base64 preview
+  blobPreview: BlobPreview;
+  blobPreviewBytes: number;
+}
+
 // ============================================================================
 // Query Result Interfaces
 // ============================================================================
 
+// Column of a query result, from the driver's fetch metadata
+export interface ResultColumn {
+  name: string;
+  // Oracle type name, e.g. NUMBER, VARCHAR2, TIMESTAMP WITH TIME ZONE
+  dbType: string;
+  // NUMBER precision, or fractional seconds precision for TIMESTAMP types
+  precision?: number;
+  scale?: number;
+  nullable: boolean;
+  // Maximum size in bytes of character and RAW columns
+  byteSize?: number;
+  // Set when a masking rule replaces the column's values
+  masked?: MaskStrategy;
+}
+
+// Additional titled row set returned alongside a result, e.g. dry-run samples
+export interface ResultTable {
+  title: string;
+  columns: ResultColumn[];
+  rows: unknown[][];
+}
+
 export interface QueryResult {
   success: boolean;
   queryType: QueryType;
   message: string;
-  columns?: string[];
+  columns?: ResultColumn[];
   rows?: unknown[][];
   rowCount?: number;
   affectedRows?: number;
@@ -76,6 +239,123 @@ export interface QueryResult {
   warnings?: string[];
   error?: string;
   outputParams?: Record<string, unknown>;
+  // Set when more rows can be read with fetch_more
+  continuationToken?: string;
+  // Set when the statement was held; resubmit it unchanged with this token
+  confirmationToken?: string;
+  resultSets?: ResultTable[];
+  // What happened to the transaction after a write
+  transaction?: TransactionOutcome;
+  // Rows of an execute_batch call that failed
+  batchErrors?: BatchRowError[];
+  // DBMS_OUTPUT lines, when captured
+  output?: string[];
+}
+
+export type TransactionOutcome = 'committed' | 'rolled_back' | 'pending';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'sql';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // File name relative to the export directory
+  file: string;
+  overwrite?: boolean;
+  // CSV only
+  delimiter?: string;
+  quoteAll?: boolean;
+  header?: boolean;
+  // SQL only - table named in the INSERT statements
+  tableName?: string;
+}
+
+export interface ExportResult {
+  success: boolean;
+  message: string;
+  format: ExportFormat;
+  file?: string;
+  rowCount?: number;
+  bytesWritten?: number;
+  executionTime?: number;
+  warnings?: string[];
+  confirmationToken?: string;
+  error?: string;
+}
+
+export interface ImportOptions {
+  // File name relative to the import directory
+  file: string;
+  table: string;
+  schema?: string;
+  delimiter?: string;
+  // Whether the first record names the columns (default: true)
+  header?: boolean;
+  // Column for each field when the file has no header
+  columns?: string[];
+  // CSV header -> column name; an empty name skips the field
+  columnMap?: Record<string, string>;
+  // Oracle-style formats, e.g. DD/MM/YYYY; ISO 8601 when not set
+  dateFormat?: string;
+  timestampFormat?: string;
+  batchSize?: number;
+  dryRun?: boolean;
+  commit?: boolean;
+  // Reject file name relative to the import directory
+  rejectFile?: string;
+}
+
+export interface ImportRejectedRow {
+  // Line of the CSV file the record starts on
+  line: number;
+  error: string;
+}
+
+export interface ImportResult {
+  success: boolean;
+  message: string;
+  file?: string;
+  table?: string;
+  columns?: string[];
+  rowsRead?: number;
+  rowsInserted?: number;
+  rowsRejected?: number;
+  // The first rejected rows; all of them are in the reject file
+  rejects?: ImportRejectedRow[];
+  rejectFile?: string;
+  dryRun?: boolean;
+  executionTime?: number;
+  transaction?: TransactionOutcome;
+  warnings?: string[];
+  confirmationToken?: string;
+  error?: string;
+}
+
+export interface LobReadRequest {
+  table: string;
+  schema?: string;
+  column: string;
+  rowid: string;
+  // 1-based character (CLOB) or byte (BLOB) position
+  offset?: number;
+  length?: number;
+  // Encoding for BLOB data
+  encoding?: 'hex' | 'base64';
+}
+
+export interface LobChunk {
+  success: boolean;
+  message: string;
+  column?: string;
+  lobType?: string;
+  // Characters for CLOB/NCLOB, bytes for BLOB
+  totalLength?: number;
+  // 1-based position of the first character or byte in data
+  offset?: number;
+  length?: number;
+  data?: string;
+  encoding?: 'text' | 'hex' | 'base64';
+  hasMore?: boolean;
+  error?: string;
 }
 
 // ============================================================================
@@ -92,6 +372,8 @@ export interface ColumnInfo {
   defaultValue?: string;
   columnId: number;
   comments?: string;
+  // Masking applied to the column in query results
+  masked?: MaskStrategy;
 }
 
 export interface ConstraintInfo {
@@ -131,6 +413,7 @@ export interface SchemaObject {
 }
 
 export interface ProcedureParam {
+  // RETURN (at position 0) for a function's return value
   name: string;
   position: number;
   dataType: string;
@@ -139,6 +422,38 @@ export interface ProcedureParam {
   precision?: number;
   scale?: number;
   hasDefault: boolean;
+  // Set for overloaded package members
+  overload?: number;
+}
+
+// OUT parameter types for procedures without readable metadata
+export type ProcedureOutType =
+  | 'string'
+  | 'int'
+  | 'float'
+  | 'date'
+  | 'timestamp'
+  | 'clob'
+  | 'blob'
+  | 'boolean'
+  | 'cursor';
+
+export interface ProcedureCallOptions {
+  params?: Record<string, unknown>;
+  // Only used when the procedure's parameters cannot be read from the dictionary
+  outParams?: Record<string, ProcedureOutType>;
+  // Overload number of a package member, when the arguments do not pick one
+  overload?: number;
+  // Rows read from each REF CURSOR
+  maxRows?: number;
+}
+
+// Optimizer estimates checked by the cost guard
+export interface PlanEstimate {
+  cost?: number;
+  cardinality?: number;
+  // Tables read with a full scan; rows is unknown without statistics
+  fullScans: { table: string; rows?: number }[];
 }
 
 export interface ExplainPlanStep {
@@ -157,6 +472,14 @@ export interface ExplainPlanStep {
 // Connection Info
 // ============================================================================
 
+export interface PoolStats {
+  open: number;
+  inUse: number;
+  queued: number;
+  min: number;
+  max: number;
+}
+
 export interface ConnectionInfo {
   name: string;
   host?: string;
@@ -165,6 +488,8 @@ export interface ConnectionInfo {
   username: string;
   mode: string;
   connected: boolean;
+  pool?: PoolStats;
+  policy: SafetyPolicy;
 }
 
 export interface ConnectionTestResult {
@@ -174,7 +499,252 @@ export interface ConnectionTestResult {
   schema?: string;
   version?: string;
   mode?: string;
+  // Set for read-only connections: whether a write attempt was rejected
+  readOnlyVerified?: boolean;
   error?: string;
   message: string;
 }
 
+// ============================================================================
+// Audit Log Interfaces
+// ============================================================================
+
+// none: binds are logged as given; sensitive: values of binds whose name
+// matches sensitiveBindPattern are masked; all: every value is masked
+export type BindRedaction = 'none' | 'sensitive' | 'all';
+
+export interface AuditOptions {
+  enabled: boolean;
+  // JSON Lines file the log is appended to
+  path: string;
+  redactBinds: BindRedaction;
+  // Case-insensitive regular expression matched against bind names
+  sensitiveBindPattern: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  connection: string;
+  dbUser: string;
+  tool: string;
+  sql: string;
+  binds?: unknown;
+  queryType?: QueryType;
+  dangerLevel?: DangerLevel;
+  rowsAffected?: number;
+  rowsReturned?: number;
+  durationMs: number;
+  transaction?: TransactionOutcome;
+  // Set for execute_dml dry runs, which are always rolled back
+  dryRun?: boolean;
+  success: boolean;
+  error?: string;
+}
+
+export interface AuditFilter {
+  connection?: string;
+  tool?: string;
+  // Case-insensitive substring of the SQL text
+  text?: string;
+  queryType?: QueryType;
+  status?: 'success' | 'failure';
+  // ISO 8601 timestamps
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+// ============================================================================
+// Query History Interfaces
+// ============================================================================
+
+export interface HistoryOptions {
+  // Entries kept per connection; the oldest are dropped first
+  maxEntries: number;
+  // JSON file the history is saved to; unset keeps it in memory only
+  path?: string;
+}
+
+// How a history entry can be run again
+export interface RerunSpec {
+  method: 'query' | 'dml' | 'dry_run' | 'plsql';
+  maxRows?: number;
+  commit?: boolean;
+  sampleRows?: number;
+}
+
+export interface HistoryEntry {
+  id: number;
+  timestamp: string;
+  connection: string;
+  tool: string;
+  sql: string;
+  binds?: BindValues;
+  queryType: QueryType;
+  success: boolean;
+  error?: string;
+  rowCount?: number;
+  affectedRows?: number;
+  durationMs: number;
+  // Absent for statements that cannot be rerun, e.g. exports and commits
+  rerun?: RerunSpec;
+  // The SQL or binds were redacted like in the audit log
+  redacted?: boolean;
+}
+
+export interface HistoryFilter {
+  connection?: string;
+  // Case-insensitive substring of the SQL text
+  text?: string;
+  status?: 'success' | 'failure';
+  // ISO 8601 timestamps
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+// ============================================================================
+// Saved Query Interfaces
+// ============================================================================
+
+export type SavedQueryParamType = 'string' | 'number' | 'integer' | 'date' | 'timestamp';
+
+export interface SavedQueryParam {
+  // Matches the :name bind in the statement
+  name: string;
+  type: SavedQueryParamType;
+  description?: string;
+  required: boolean;
+  default?: string | number;
+  // Values the parameter is restricted to
+  allowedValues?: (string | number)[];
+}
+
+// Vetted statement defined in config and exposed as its own tool
+export interface SavedQuery {
+  name: string;
+  description: string;
+  sql: string;
+  // Connections it may run on; the first is the default
+  connections: string[];
+  parameters: SavedQueryParam[];
+  maxRows?: number;
+}
+
+// ============================================================================
+// Transaction Interfaces
+// ============================================================================
+
+export interface TransactionStatement {
+  timestamp: string;
+  tool: string;
+  sql: string;
+  affectedRows?: number;
+}
+
+export interface TransactionSavepoint {
+  name: string;
+  // Statements executed before the savepoint was set
+  statementCount: number;
+}
+
+// Bookkeeping for a session held out of the pool with uncommitted work
+export interface TransactionInfo {
+  // Opened with begin_transaction: statements do not auto-commit
+  explicit: boolean;
+  startedAt: string;
+  lastActivityAt: string;
+  statements: TransactionStatement[];
+  savepoints: TransactionSavepoint[];
+}
+
+export interface TransactionStatus {
+  connection: string;
+  open: boolean;
+  // Whether the database reports an active transaction on the session
+  hasUncommittedWork: boolean;
+  transactionId?: string;
+  transaction?: TransactionInfo;
+  durationSeconds?: number;
+  idleSeconds?: number;
+  // Seconds of inactivity before the transaction is rolled back (0 = never)
+  idleTimeout: number;
+  lastAutoRollback?: { at: string; statements: number };
+}
+
+// ============================================================================
+// Data Masking Interfaces
+// ============================================================================
+
+export type MaskStrategy = 'redact' | 'partial' | 'hash';
+
+// Patterns are case-insensitive and accept * as a wildcard
+export interface MaskingRule {
+  connection?: string;
+  schema?: string;
+  // TABLE or SCHEMA.TABLE
+  table?: string;
+  column?: string;
+  // Regular expression; matching parts of text values are masked
+  valuePattern?: string;
+  strategy: MaskStrategy;
+  // Partial masking: characters left visible at each end (default 0 and 4)
+  keepStart?: number;
+  keepEnd?: number;
+}
+
+export interface MaskingOptions {
+  rules: MaskingRule[];
+  // Secret mixed into hashes so masked values cannot be found by hashing guesses
+  salt: string;
+}
+
+// ============================================================================
+// Result Comparison Interfaces
+// ============================================================================
+
+export interface CompareOptions {
+  // Columns identifying a row; without them whole rows are matched
+  keyColumns?: string[];
+  maxRows?: number;
+  // Rows listed per kind of difference; the counts cover all of them
+  maxDifferences?: number;
+}
+
+export interface CellDifference {
+  column: string;
+  a: unknown;
+  b: unknown;
+}
+
+export interface ChangedRow {
+  // Values of the key columns, in keyColumns order
+  key: unknown[];
+  cells: CellDifference[];
+}
+
+export interface ComparisonResult {
+  success: boolean;
+  message: string;
+  connectionA: string;
+  connectionB: string;
+  keyColumns?: string[];
+  // Columns present in both results, in the order of the first
+  columns?: ResultColumn[];
+  columnsOnlyInA?: string[];
+  columnsOnlyInB?: string[];
+  rowCountA?: number;
+  rowCountB?: number;
+  matchingRows?: number;
+  onlyInA?: unknown[][];
+  onlyInB?: unknown[][];
+  changed?: ChangedRow[];
+  onlyInACount?: number;
+  onlyInBCount?: number;
+  changedCount?: number;
+  executionTime?: number;
+  warnings?: string[];
+  // Set when either side was held; resubmit the comparison with this token
+  confirmationToken?: string;
+  error?: string;
+}